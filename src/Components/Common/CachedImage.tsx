@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from "react";
+import { getImageUrl, ImageVariant } from "helpers/image_cache";
+
+interface CachedImageProps {
+    imageId?: string; // Identificador de la imagen en el almacenamiento
+    variant?: ImageVariant; // Miniatura para listados, imagen completa para detalles
+    alt?: string;
+    className?: string;
+    style?: React.CSSProperties;
+}
+
+const CachedImage: React.FC<CachedImageProps> = ({ imageId, variant = "thumbnail", alt = "Imagen", className, style }) => {
+    const [src, setSrc] = useState<string>('');
+
+    useEffect(() => {
+        let active = true;
+        setSrc('');
+
+        if (imageId) {
+            getImageUrl(imageId, variant)
+                .then((url) => {
+                    if (active) setSrc(url);
+                })
+                .catch((error) => {
+                    console.error('Error al recuperar la imagen: ', error);
+                })
+        }
+
+        return () => {
+            active = false;
+        };
+    }, [imageId, variant]);
+
+    if (!src) {
+        return (
+            <div className={`d-flex align-items-center justify-content-center bg-light rounded text-muted ${className || ''}`} style={style}>
+                <i className="ri-image-line fs-18"></i>
+            </div>
+        );
+    }
+
+    return <img src={src} alt={alt} className={`rounded ${className || ''}`} style={{ objectFit: 'cover', ...style }} />;
+};
+
+export default CachedImage;
@@ -0,0 +1,90 @@
+import React, { useState } from "react";
+import { Button, Dropdown, DropdownItem, DropdownMenu, DropdownToggle, Input, Label } from "reactstrap";
+import { TableLayout } from "helpers/table_helper";
+
+interface ColumnChooserProps {
+    columns: Array<{ header: string; accessor: string }>; // En el orden actual
+    layout: TableLayout;
+    onChange: (layout: TableLayout) => void;
+    onReset: () => void;
+}
+
+const ColumnChooser: React.FC<ColumnChooserProps> = ({ columns, layout, onChange, onReset }) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+    const visibleCount = columns.filter((col) => !layout.hiddenColumns.includes(col.accessor)).length;
+
+    const handleToggleColumn = (accessor: string) => {
+        const hiddenColumns = layout.hiddenColumns.includes(accessor)
+            ? layout.hiddenColumns.filter((a) => a !== accessor)
+            : [...layout.hiddenColumns, accessor];
+        onChange({ ...layout, hiddenColumns });
+    };
+
+    const handleDrop = (targetIndex: number) => {
+        if (dragIndex === null || dragIndex === targetIndex) return;
+        const order = columns.map((col) => col.accessor);
+        const [moved] = order.splice(dragIndex, 1);
+        order.splice(targetIndex, 0, moved);
+        onChange({ ...layout, columnOrder: order });
+        setDragIndex(null);
+    };
+
+    return (
+        <Dropdown isOpen={isOpen} toggle={() => setIsOpen(!isOpen)}>
+            <DropdownToggle color="light" caret>
+                <i className="ri-layout-column-line me-2"></i>
+                Columnas
+            </DropdownToggle>
+            <DropdownMenu end style={{ minWidth: "260px" }}>
+                <DropdownItem header>Arrastre para reordenar</DropdownItem>
+                {columns.map((col, index) => {
+                    const visible = !layout.hiddenColumns.includes(col.accessor);
+                    return (
+                        <div
+                            key={col.accessor}
+                            className={`d-flex align-items-center gap-2 px-3 py-1 ${dragIndex === index ? "bg-light" : ""}`}
+                            draggable
+                            onDragStart={() => setDragIndex(index)}
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={() => handleDrop(index)}
+                            onDragEnd={() => setDragIndex(null)}
+                            style={{ cursor: "grab" }}
+                        >
+                            <i className="ri-draggable text-muted"></i>
+                            <Input
+                                type="checkbox"
+                                className="form-check-input m-0"
+                                id={`column-${col.accessor}`}
+                                checked={visible}
+                                // Siempre debe quedar al menos una columna visible
+                                disabled={visible && visibleCount === 1}
+                                onChange={() => handleToggleColumn(col.accessor)}
+                            />
+                            <Label className="form-check-label mb-0" htmlFor={`column-${col.accessor}`}>{col.header}</Label>
+                        </div>
+                    );
+                })}
+                <DropdownItem divider />
+                <div className="px-3 py-1 form-check form-switch ms-2">
+                    <Input
+                        type="checkbox"
+                        className="form-check-input"
+                        id="pinFirstColumn"
+                        checked={layout.pinFirstColumn}
+                        onChange={() => onChange({ ...layout, pinFirstColumn: !layout.pinFirstColumn })}
+                    />
+                    <Label className="form-check-label" htmlFor="pinFirstColumn">Fijar primera columna</Label>
+                </div>
+                <div className="px-3 pt-1">
+                    <Button color="link" size="sm" className="p-0" onClick={onReset}>
+                        Restablecer columnas
+                    </Button>
+                </div>
+            </DropdownMenu>
+        </Dropdown>
+    );
+};
+
+export default ColumnChooser;
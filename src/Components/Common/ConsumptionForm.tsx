@@ -0,0 +1,234 @@
+import { APIClient } from 'helpers/api_helper';
+import { useEffect, useState } from 'react';
+import { Alert, Button, Col, FormFeedback, Input, Label, Modal, ModalBody, ModalFooter, ModalHeader, Row, Spinner } from 'reactstrap';
+import * as Yup from 'yup'
+import Flatpickr from 'react-flatpickr';
+import { useFormik } from 'formik';
+import { SubwarehouseData } from './SubwarehouseForm';
+import { OutcomeData } from './OutcomeForm';
+import SelectTable from './SelectTable';
+
+const axiosHelper = new APIClient();
+const apiUrl = process.env.REACT_APP_API_URL;
+
+interface ConsumptionFormProps {
+    subwarehouse: SubwarehouseData;
+    onSubmit: (data: OutcomeData) => Promise<void>
+    onCancel: () => void;
+}
+
+export const consumptionReasonOptions = [
+    { label: "Alimentación", value: "feeding" },
+    { label: "Vacunación", value: "vaccination" },
+    { label: "Tratamiento", value: "treatment" },
+    { label: "Limpieza y mantenimiento", value: "maintenance" },
+    { label: "Otro", value: "other" },
+];
+
+const validationSchema = Yup.object({
+    id: Yup.string()
+        .required('Por favor, ingrese el ID')
+        .test('unique_id', 'Este identificador ya existe, por favor ingrese otro', async (value) => {
+            if (!value) return false
+            try {
+                const result = await axiosHelper.get(`${apiUrl}/outcomes/outcome_id_exists/${value}`)
+                return !result.data.data
+            } catch (error) {
+                console.error(`Error al validar el ID: ${error}`)
+                return false
+            }
+        }),
+    date: Yup.string().required('Por favor, ingrese la fecha'),
+    reason: Yup.string().required('Por favor, seleccione el motivo del consumo'),
+    responsible: Yup.string().required('Por favor, ingrese el nombre del responsable'),
+    products: Yup.array().min(1, 'Por favor, seleccione al menos un producto'),
+})
+
+const ConsumptionForm: React.FC<ConsumptionFormProps> = ({ subwarehouse, onSubmit, onCancel }) => {
+    const [modals, setModals] = useState({ cancel: false });
+    const [alertConfig, setAlertConfig] = useState({ visible: false, color: '', message: '' })
+    const [products, setProducts] = useState([])
+
+    const handleError = (error: any, message: string) => {
+        console.error(message, error);
+        setAlertConfig({ visible: true, color: 'danger', message: message })
+        setTimeout(() => {
+            setAlertConfig({ ...alertConfig, visible: false })
+        }, 5000);
+    }
+
+    const toggleModal = (modalName: keyof typeof modals, state?: boolean) => {
+        setModals((prev) => ({ ...prev, [modalName]: state ?? !prev[modalName] }));
+    };
+
+    const formik = useFormik({
+        initialValues: {
+            id: "",
+            date: "",
+            products: [],
+            totalPrice: 0,
+            outcomeType: "consumption",
+            status: true,
+            warehouseDestiny: "",
+            warehouseOrigin: subwarehouse.id,
+            reason: "",
+            responsible: subwarehouse.manager,
+        },
+        enableReinitialize: true,
+        validationSchema,
+        onSubmit: async (values, { setSubmitting }) => {
+            try {
+                setSubmitting(true);
+                await onSubmit(values);
+            } catch (error) {
+                console.error("Error al enviar el formulario:", error);
+            } finally {
+                setSubmitting(false);
+            }
+        },
+    });
+
+    const handleProductSelect = (selectedProducts: Array<{ id: string; quantity: number; price: number }>) => {
+        formik.setFieldValue("products", selectedProducts);
+        const total = selectedProducts.reduce((sum, product) => sum + (product.quantity * product.price || 0), 0);
+        formik.setFieldValue("totalPrice", parseFloat(total.toFixed(2)));
+    };
+
+    const handleFetchSubwarehouseInventory = async () => {
+        await axiosHelper.get(`${apiUrl}/warehouse/get_inventory/${subwarehouse.id}`)
+            .then((response) => {
+                const inventory = response.data.data;
+
+                setProducts(
+                    inventory.filter(function (obj: any) {
+                        return obj.quantity !== 0
+                    })
+                )
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener el inventario del subalmacén, intentelo más tarde')
+            })
+    }
+
+    useEffect(() => {
+        handleFetchSubwarehouseInventory();
+    }, [subwarehouse.id])
+
+    return (
+        <>
+            <form onSubmit={(e) => { e.preventDefault(); formik.handleSubmit(); }}>
+                <div className='d-flex gap-3'>
+                    <div className="w-50">
+                        <Label htmlFor="idInput" className="form-label">Identificador</Label>
+                        <Input
+                            type="text"
+                            id="idInput"
+                            name="id"
+                            value={formik.values.id}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                            invalid={formik.touched.id && !!formik.errors.id}
+                        />
+                        {formik.touched.id && formik.errors.id && <FormFeedback>{formik.errors.id}</FormFeedback>}
+                    </div>
+
+                    <div className="w-50">
+                        <Label htmlFor="dateInput" className="form-label">Fecha</Label>
+
+                        <Flatpickr
+                            id="dateInput"
+                            className="form-control"
+                            value={formik.values.date}
+                            options={{
+                                dateFormat: "d-m-Y",
+                                defaultDate: formik.values.date,
+                            }}
+                            onChange={(date) => {
+                                const formattedDate = date[0].toLocaleDateString("es-ES");
+                                formik.setFieldValue("date", formattedDate);
+                            }}
+                        />
+                        {formik.touched.date && formik.errors.date && <FormFeedback className="d-block">{formik.errors.date}</FormFeedback>}
+                    </div>
+                </div>
+
+                <Row className="mt-4">
+                    <Col lg={6}>
+                        <Label htmlFor='reasonInput' className='form-label'>Motivo de Consumo</Label>
+                        <Input
+                            type='select'
+                            id='reasonInput'
+                            name='reason'
+                            value={formik.values.reason}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                            invalid={formik.touched.reason && !!formik.errors.reason}
+                        >
+                            <option value=''>Seleccione un motivo</option>
+                            {consumptionReasonOptions.map((reason) => (
+                                <option key={reason.value} value={reason.value}>
+                                    {reason.label}
+                                </option>
+                            ))}
+                        </Input>
+                        {formik.touched.reason && formik.errors.reason && <FormFeedback>{formik.errors.reason}</FormFeedback>}
+                    </Col>
+
+                    <Col lg={6}>
+                        <Label htmlFor='responsibleInput' className='form-label'>Responsable</Label>
+                        <Input
+                            type='text'
+                            id='responsibleInput'
+                            name='responsible'
+                            value={formik.values.responsible}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                            invalid={formik.touched.responsible && !!formik.errors.responsible}
+                        />
+                        {formik.touched.responsible && formik.errors.responsible && <FormFeedback>{formik.errors.responsible}</FormFeedback>}
+                    </Col>
+                </Row>
+
+                {/* Productos */}
+                <div className="d-flex mt-5">
+                    <h5 className="me-auto">Productos consumidos</h5>
+                </div>
+                <div className="border"></div>
+
+                <div className="mt-3 border border-0">
+                    <SelectTable data={products} onProductSelect={handleProductSelect} showStock={true}></SelectTable>
+                    {formik.touched.products && formik.errors.products && <FormFeedback className="d-block">{formik.errors.products as string}</FormFeedback>}
+                </div>
+
+                <div className='d-flex justify-content-end mt-4 gap-2'>
+                    <Button color='danger' disabled={formik.isSubmitting} onClick={() => toggleModal('cancel')}>
+                        Cancelar
+                    </Button>
+
+                    <Button color='success' type='submit' disabled={formik.isSubmitting}>
+                        {formik.isSubmitting ? <Spinner /> : "Registrar Consumo"}
+                    </Button>
+                </div>
+            </form>
+
+            {/* Modal de Cancelar */}
+            <Modal isOpen={modals.cancel} centered toggle={() => toggleModal('cancel', false)}>
+                <ModalHeader>Confirmación</ModalHeader>
+                <ModalBody>¿Estás seguro de que deseas cancelar? Los datos no se guardarán.</ModalBody>
+                <ModalFooter>
+                    <Button color="danger" onClick={onCancel}>Sí, cancelar</Button>
+                    <Button color="success" onClick={() => toggleModal('cancel', false)}>No, continuar</Button>
+                </ModalFooter>
+            </Modal>
+
+            {/* Alerta */}
+            {alertConfig.visible && (
+                <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
+                    {alertConfig.message}
+                </Alert>
+            )}
+        </>
+    )
+}
+
+export default ConsumptionForm;
@@ -1,68 +1,332 @@
-import React, { useState, useEffect } from "react";
-import { Table } from "reactstrap";
+import React, { useState, useEffect, useRef } from "react";
+import { Badge, Button, Collapse, DropdownItem, DropdownMenu, DropdownToggle, Input, Table, UncontrolledDropdown } from "reactstrap";
+import { APIClient } from "helpers/api_helper";
+import { exportToCSV, exportToXLSX } from "helpers/export_helper";
+import { FilterCondition, FilterType, TableLayout, TableViewState, isActiveCondition, loadTableLayout, matchesCondition, orderColumns, saveTableLayout, sortRows } from "helpers/table_helper";
+import ColumnChooser from "./ColumnChooser";
 import Pagination from "./Pagination";
 import TableFilter from "./TableFilter";
+import TableFilterBuilder, { isConditionColumn } from "./TableFilterBuilder";
+import TableViews from "./TableViews";
 
 type Column<T> = {
   header: string;
   accessor: keyof T;
   render?: (value: any, row: T) => React.ReactNode;
+  exportValue?: (value: any, row: T) => string | number; // Valor que se exporta cuando no basta con el valor crudo ni con el texto del render
   isFilterable?: boolean;
+  isSortable?: boolean;
+  filterType?: FilterType; // Permite filtrar la columna por rango ("date" o "number") en el constructor de filtros
+  options?: { label: string; value: any }[];
 };
 
+// Modo servidor: la API pagina, ordena y filtra. Recibe page, pageSize, sortBy, sortOrder, filterField, filterText
+// y conditions (las condiciones del constructor de filtros en JSON) como parámetros de consulta
+// y responde { data: filas de la página, total: número total de filas filtradas }
+type ServerSideOptions = {
+  url: string;
+  params?: Record<string, string | number | boolean>; // Parámetros fijos que se envían en cada consulta
+  refreshKey?: number; // Al cambiar se vuelve a consultar la página actual, p. ej. tras crear o eliminar un registro
+  onError?: (error: any) => void;
+};
+
+type SortOrder = "asc" | "desc";
+
 type CustomTableProps<T> = {
   columns: Column<T>[];
-  data: T[];
+  data?: T[];
   className?: string;
   showSearchAndFilter?: boolean;
   rowClickable?: boolean;
   onRowClick?: (row: T) => void;
   rowsPerPage?: number;
   defaultFilterField?: keyof T;
+  exportFileName?: string; // Muestra la opción de exportar a CSV y Excel con este nombre de archivo
+  serverSide?: ServerSideOptions;
+  tableId?: string; // Identifica la tabla para guardar la disposición de sus columnas
+  savedViews?: boolean; // Habilita las vistas guardadas por usuario y el selector de filas por página (requiere tableId)
+};
+
+const PAGE_SIZE_OPTIONS = [5, 10, 25, 50, 100];
+
+const axiosHelper = new APIClient();
+
+// Espera a que el usuario deje de escribir antes de consultar al servidor
+const FILTER_DEBOUNCE_MS = 400;
+
+// La primera columna fijada queda visible al desplazar la tabla horizontalmente.
+// Las celdas del cuerpo necesitan fondo propio para tapar el contenido que pasa por debajo
+const PINNED_COLUMN_STYLE: React.CSSProperties = { position: "sticky", left: 0, zIndex: 1 };
+const PINNED_CELL_STYLE: React.CSSProperties = { ...PINNED_COLUMN_STYLE, background: "var(--vz-card-bg)" };
+
+// Texto plano de lo que pinta una celda (badges, enlaces, etc.) para exportarlo
+const nodeToText = (node: React.ReactNode): string => {
+  if (node === null || node === undefined || typeof node === "boolean") return "";
+  if (typeof node === "string" || typeof node === "number") return String(node);
+  if (Array.isArray(node)) return node.map(nodeToText).join("");
+  if (React.isValidElement(node)) return nodeToText((node.props as { children?: React.ReactNode }).children);
+  return "";
 };
 
 const CustomTable = <T,>({
   columns,
-  data,
+  data = [],
   className = "",
   showSearchAndFilter = true,
   rowClickable = false,
   onRowClick,
   rowsPerPage = 10,
   defaultFilterField,
+  exportFileName,
+  serverSide,
+  tableId,
+  savedViews = false,
 }: CustomTableProps<T>) => {
   const [filterText, setFilterText] = useState<string>("");
   const [selectedFilter, setSelectedFilter] = useState<keyof T | "">("");
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [filteredData, setFilteredData] = useState<T[]>(data);
+  const [sort, setSort] = useState<{ column: keyof T | ""; order: SortOrder }>({ column: "", order: "asc" });
+  const [debouncedFilterText, setDebouncedFilterText] = useState<string>("");
+  const [serverRows, setServerRows] = useState<T[]>([]);
+  const [serverTotal, setServerTotal] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [conditions, setConditions] = useState<FilterCondition[]>([]);
+  const [showConditions, setShowConditions] = useState<boolean>(false);
+  const [pageSize, setPageSize] = useState<number>(rowsPerPage);
+  // Por defecto las columnas siguen el orden del arreglo columns y todas son visibles
+  const defaultLayout: TableLayout = { columnOrder: columns.map((col) => col.accessor as string), hiddenColumns: [], pinFirstColumn: false };
+  const [layout, setLayout] = useState<TableLayout>(() => (tableId && loadTableLayout(tableId)) || defaultLayout);
+
+  const activeConditions = conditions.filter(isActiveCondition);
+  const conditionsKey = JSON.stringify(activeConditions);
+  const serverParamsKey = JSON.stringify(serverSide?.params);
+  const serverQueryKey = JSON.stringify([debouncedFilterText, selectedFilter, sort, conditionsKey]);
+  const serverRequestRef = useRef<number>(0);
+  const lastServerQueryKeyRef = useRef<string>(serverQueryKey);
+  const orderedColumns = orderColumns(columns, layout.columnOrder);
+  const visibleColumns = orderedColumns.filter((col) => !layout.hiddenColumns.includes(col.accessor as string));
+
+  // Estado que se guarda en una vista y se restaura al aplicarla
+  const currentViewState: TableViewState = {
+    filterText,
+    selectedFilter: selectedFilter as string,
+    conditions,
+    sort: { column: sort.column as string, order: sort.order },
+    hiddenColumns: layout.hiddenColumns,
+    columnOrder: layout.columnOrder,
+    pinFirstColumn: layout.pinFirstColumn,
+    rowsPerPage: pageSize,
+  };
 
-  // Filtrar datos según texto y filtro seleccionado
+  const handleApplyView = (view: TableViewState) => {
+    setSelectedFilter(view.selectedFilter as keyof T | "");
+    setFilterText(view.filterText);
+    setConditions(view.conditions || []);
+    setShowConditions((view.conditions || []).length > 0);
+    setSort({ column: view.sort?.column as keyof T | "", order: view.sort?.order || "asc" });
+    setLayout((prev) => ({
+      columnOrder: view.columnOrder || prev.columnOrder,
+      hiddenColumns: view.hiddenColumns || [],
+      pinFirstColumn: view.pinFirstColumn ?? prev.pinFirstColumn,
+    }));
+    setPageSize(view.rowsPerPage || rowsPerPage);
+  };
+
+  useEffect(() => {
+    if (tableId) saveTableLayout(tableId, layout);
+  }, [tableId, layout]);
+
+  // Filtrar datos según texto, filtro seleccionado y condiciones, y ordenar según la columna elegida
   useEffect(() => {
+    if (serverSide) return;
     const result = data.filter((row) => {
-      if (!filterText || !selectedFilter) return true;
+      const matchesConditions = activeConditions.every((condition) => matchesCondition(row[condition.field as keyof T], condition));
+      if (!filterText || !selectedFilter) return matchesConditions;
       const cellValue = row[selectedFilter];
-      return cellValue?.toString().toLowerCase().includes(filterText.toLowerCase());
+      return matchesConditions && cellValue?.toString().toLowerCase().includes(filterText.toLowerCase());
     });
-    setFilteredData(result);
+    setFilteredData(sort.column ? sortRows(result, sort.column, sort.order) : result);
     setCurrentPage(1); // Reinicia a la primera página al filtrar
-  }, [filterText, selectedFilter, data]);
+  }, [filterText, selectedFilter, data, conditionsKey, sort]);
+
+  useEffect(() => {
+    if (!serverSide) return;
+    const timeout = setTimeout(() => setDebouncedFilterText(filterText), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [filterText]);
+
+  const serverQuery = (page: number, pageSize: number) => ({
+    ...serverSide?.params,
+    page,
+    pageSize,
+    ...(sort.column ? { sortBy: sort.column as string, sortOrder: sort.order } : {}),
+    ...(debouncedFilterText && selectedFilter ? { filterField: selectedFilter as string, filterText: debouncedFilterText } : {}),
+    ...(activeConditions.length ? { conditions: JSON.stringify(activeConditions) } : {}),
+  });
+
+  // Solo se aplica la respuesta de la última consulta; las anteriores que lleguen tarde se descartan
+  const handleFetchServerPage = async () => {
+    if (!serverSide) return;
+    const requestId = ++serverRequestRef.current;
+    const isStale = () => requestId !== serverRequestRef.current;
+    setLoading(true);
+    await axiosHelper.get(serverSide.url, serverQuery(Math.max(currentPage, 1), pageSize))
+      .then((response) => {
+        if (isStale()) return;
+        setServerRows(response.data.data);
+        setServerTotal(response.data.total ?? response.data.data.length);
+      })
+      .catch((error) => {
+        if (isStale()) return;
+        console.error("Error al obtener los datos de la tabla", error);
+        setServerRows([]);
+        setServerTotal(0);
+        serverSide.onError?.(error);
+      })
+      .finally(() => {
+        if (!isStale()) setLoading(false);
+      })
+  };
+
+  // Al cambiar el filtro, el orden o las condiciones se vuelve a la primera página.
+  // Si no se estaba en ella, la consulta la hace el cambio de página y no la página anterior con el filtro nuevo
+  useEffect(() => {
+    if (lastServerQueryKeyRef.current !== serverQueryKey) {
+      lastServerQueryKeyRef.current = serverQueryKey;
+      if (currentPage !== 1) {
+        setCurrentPage(1);
+        return;
+      }
+    }
+    handleFetchServerPage();
+  }, [serverSide?.url, serverParamsKey, serverSide?.refreshKey, currentPage, pageSize, serverQueryKey]);
+
+  const handleSort = (col: Column<T>) => {
+    if (!col.isSortable) return;
+    setSort((prev) => ({
+      column: col.accessor,
+      order: prev.column === col.accessor && prev.order === "asc" ? "desc" : "asc",
+    }));
+  };
 
   // Datos paginados según la página actual
-  const paginatedData = filteredData.slice(
-    (currentPage - 1) * rowsPerPage,
-    currentPage * rowsPerPage
-  );
+  const paginatedData = serverSide
+    ? serverRows
+    : filteredData.slice(
+      (currentPage - 1) * pageSize,
+      currentPage * pageSize
+    );
+
+  // Los números se exportan como número aunque la columna tenga render (badges, símbolos de moneda...)
+  // para que la hoja de cálculo los formatee en español y se puedan operar
+  const cellExportValue = (col: Column<T>, row: T) => {
+    const value = row[col.accessor];
+    if (col.exportValue) return col.exportValue(value, row);
+    if (typeof value === "number") return value;
+    if (col.render) return nodeToText(col.render(value, row)).trim();
+    return value?.toString() ?? "";
+  };
+
+  // En modo servidor exportar todas las páginas requiere pedir al servidor todas las filas filtradas
+  // Devuelve null si la consulta falla, para no exportar un archivo vacío
+  const fetchAllServerRows = async (): Promise<T[] | null> => {
+    if (!serverSide) return filteredData;
+    return await axiosHelper.get(serverSide.url, serverQuery(1, Math.max(serverTotal, 1)))
+      .then((response) => response.data.data)
+      .catch((error) => {
+        console.error("Error al obtener los datos para exportar", error);
+        serverSide.onError?.(error);
+        return null;
+      })
+  };
+
+  const handleExport = async (format: "csv" | "xlsx", scope: "page" | "all") => {
+    const source = scope === "page" ? paginatedData : await fetchAllServerRows();
+    if (!source) return;
+    const rows = source.map((row) => {
+      const exported: Record<string, any> = {};
+      visibleColumns.forEach((col) => exported[col.accessor as string] = cellExportValue(col, row));
+      return exported;
+    });
+
+    // Las columnas que no producen texto (p. ej. las de acciones) no se exportan
+    const exportColumns = visibleColumns
+      .filter((col) => rows.some((row) => row[col.accessor as string] !== ""))
+      .map((col) => ({ header: col.header, accessor: col.accessor as string }));
+
+    if (format === "csv") {
+      exportToCSV(exportFileName || "datos", exportColumns, rows);
+    } else {
+      await exportToXLSX(exportFileName || "datos", exportColumns, rows);
+    }
+  };
 
   return (
     <>
-      {showSearchAndFilter && (
-        <TableFilter
-          columns={columns}
-          filterText={filterText}
-          selectedFilter={selectedFilter}
-          onFilterTextChange={setFilterText}
-          onFilterChange={setSelectedFilter}
-          defaultFilterField={defaultFilterField}/>
+      {(showSearchAndFilter || exportFileName || tableId) && (
+        <>
+          <div className="d-flex align-items-center gap-2">
+            <div className="flex-grow-1">
+              {showSearchAndFilter && (
+                <TableFilter
+                  columns={columns}
+                  filterText={filterText}
+                  selectedFilter={selectedFilter}
+                  onFilterTextChange={setFilterText}
+                  onFilterChange={setSelectedFilter}
+                  defaultFilterField={defaultFilterField}/>
+              )}
+            </div>
+
+            {showSearchAndFilter && columns.some(isConditionColumn) && (
+              <Button color="light" onClick={() => setShowConditions(!showConditions)}>
+                <i className="ri-filter-3-line me-2"></i>
+                Filtros
+                {activeConditions.length > 0 && <Badge color="primary" className="ms-2">{activeConditions.length}</Badge>}
+              </Button>
+            )}
+
+            {tableId && (
+              <ColumnChooser
+                columns={orderedColumns.map((col) => ({ header: col.header, accessor: col.accessor as string }))}
+                layout={layout}
+                onChange={setLayout}
+                onReset={() => setLayout(defaultLayout)}
+              />
+            )}
+
+            {tableId && savedViews && (
+              <TableViews tableId={tableId} currentState={currentViewState} onApply={handleApplyView} />
+            )}
+
+            {exportFileName && (
+              <UncontrolledDropdown>
+                <DropdownToggle color="secondary" caret disabled={paginatedData.length === 0}>
+                  <i className="ri-file-download-line me-2"></i>
+                  Exportar
+                </DropdownToggle>
+                <DropdownMenu end>
+                  <DropdownItem header>Todas las páginas</DropdownItem>
+                  <DropdownItem onClick={() => handleExport("csv", "all")}>CSV</DropdownItem>
+                  <DropdownItem onClick={() => handleExport("xlsx", "all")}>Excel (XLSX)</DropdownItem>
+                  <DropdownItem divider />
+                  <DropdownItem header>Página actual</DropdownItem>
+                  <DropdownItem onClick={() => handleExport("csv", "page")}>CSV</DropdownItem>
+                  <DropdownItem onClick={() => handleExport("xlsx", "page")}>Excel (XLSX)</DropdownItem>
+                </DropdownMenu>
+              </UncontrolledDropdown>
+            )}
+          </div>
+
+          <Collapse isOpen={showConditions}>
+            <TableFilterBuilder
+              columns={columns.map((col) => ({ ...col, accessor: col.accessor as string }))}
+              conditions={conditions}
+              onChange={setConditions}
+            />
+          </Collapse>
+        </>
       )}
 
       {/* Tabla */}
@@ -70,15 +334,29 @@ const CustomTable = <T,>({
         <Table className={`table-hover align-middle table-nowrap mb-0 ${className}`}>
           <thead className="table-light">
             <tr>
-              {columns.map((col, index) => (
-                <th key={index} scope="col">
+              {visibleColumns.map((col, index) => (
+                <th
+                  key={index}
+                  scope="col"
+                  onClick={() => handleSort(col)}
+                  style={{ cursor: col.isSortable ? "pointer" : "default", ...(layout.pinFirstColumn && index === 0 ? PINNED_COLUMN_STYLE : {}) }}
+                >
                   {col.header}
+                  {col.isSortable && sort.column === col.accessor && (
+                    <i className={`${sort.order === "asc" ? "ri-arrow-up-s-fill" : "ri-arrow-down-s-fill"} align-middle ms-1`}></i>
+                  )}
                 </th>
               ))}
             </tr>
           </thead>
           <tbody>
-            {paginatedData.length > 0 ? (
+            {loading ? (
+              <tr>
+                <td colSpan={visibleColumns.length} className="text-center">
+                  Cargando...
+                </td>
+              </tr>
+            ) : paginatedData.length > 0 ? (
               paginatedData.map((row, rowIndex) => (
                 <tr
                   key={rowIndex}
@@ -86,8 +364,8 @@ const CustomTable = <T,>({
                   onClick={() => rowClickable && onRowClick && onRowClick(row)}
                   style={{ cursor: rowClickable ? "pointer" : "default" }}
                 >
-                  {columns.map((col, colIndex) => (
-                    <td key={colIndex}>
+                  {visibleColumns.map((col, colIndex) => (
+                    <td key={colIndex} style={layout.pinFirstColumn && colIndex === 0 ? PINNED_CELL_STYLE : undefined}>
                       {col.render
                         ? col.render(row[col.accessor], row)
                         : row[col.accessor]?.toString()}
@@ -97,7 +375,7 @@ const CustomTable = <T,>({
               ))
             ) : (
               <tr>
-                <td colSpan={columns.length} className="text-center">
+                <td colSpan={visibleColumns.length} className="text-center">
                   No se encontraron datos
                 </td>
               </tr>
@@ -107,13 +385,29 @@ const CustomTable = <T,>({
       </div>
 
       {/* Paginación */}
-      <div className="mt-4">
-        <Pagination
-          data={filteredData}
-          currentPage={currentPage}
-          setCurrentPage={setCurrentPage}
-          perPageData={rowsPerPage}
-        />
+      <div className="mt-4 d-flex align-items-start gap-2">
+        {tableId && savedViews && (
+          <Input
+            type="select"
+            bsSize="sm"
+            style={{ width: "auto" }}
+            value={pageSize}
+            onChange={(e) => { setPageSize(parseInt(e.target.value, 10)); setCurrentPage(1); }}
+          >
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>{size} por página</option>
+            ))}
+          </Input>
+        )}
+        <div className="flex-grow-1">
+          <Pagination
+            data={filteredData}
+            totalItems={serverSide ? serverTotal : undefined}
+            currentPage={currentPage}
+            setCurrentPage={setCurrentPage}
+            perPageData={pageSize}
+          />
+        </div>
       </div>
     </>
   );
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button, Spinner } from 'reactstrap';
+import { storageService } from 'helpers/storage';
+import FileUploader from './FileUploader';
+
+interface DocumentsFieldProps {
+    documents: Array<string>; // Identificadores de los archivos en el almacenamiento
+    onChange: (documents: Array<string>) => void;
+    folders: Array<string>;
+    onUploadingChange?: (uploading: boolean) => void;
+    onError?: (error: any) => void;
+}
+
+const DocumentsField: React.FC<DocumentsFieldProps> = ({ documents, onChange, folders, onUploadingChange, onError }) => {
+    const [uploadedFiles, setUploadedFiles] = useState<Array<{ file: File; id: string }>>([]);
+    const [uploading, setUploading] = useState<number>(0);
+
+    // Las subidas terminan de forma asíncrona, por lo que se usa siempre la lista más reciente
+    const documentsRef = useRef(documents);
+    documentsRef.current = documents;
+
+    const handleFileUpload = async (file: File) => {
+        setUploading((prev) => prev + 1);
+        await storageService.upload(file, folders)
+            .then((documentId) => {
+                setUploadedFiles((prev) => [...prev, { file, id: documentId }]);
+                onChange([...documentsRef.current, documentId]);
+            })
+            .catch((error) => {
+                console.error(`Error al subir el archivo ${file.name}`, error);
+                if (onError) onError(error);
+            })
+            .finally(() => {
+                setUploading((prev) => prev - 1);
+            })
+    }
+
+    const handleFileRemove = (file: File) => {
+        const uploaded = uploadedFiles.find((u) => u.file === file);
+        if (!uploaded) return;
+
+        setUploadedFiles((prev) => prev.filter((u) => u !== uploaded));
+        onChange(documentsRef.current.filter((id) => id !== uploaded.id));
+
+        // El archivo se subió en esta sesión y aún no está referenciado por ningún registro
+        storageService.delete(uploaded.id)
+            .catch((error) => {
+                console.error(`Error al eliminar el archivo ${file.name}`, error);
+            })
+    }
+
+    const handleRemoveDocument = (documentId: string) => {
+        onChange(documents.filter((id) => id !== documentId));
+    }
+
+    useEffect(() => {
+        if (onUploadingChange) onUploadingChange(uploading > 0);
+    }, [uploading]);
+
+    // Los documentos guardados previamente no aparecen en el cargador, se listan aparte para poder quitarlos
+    const existingDocuments = documents.filter((id) => !uploadedFiles.some((u) => u.id === id));
+
+    return (
+        <>
+            {existingDocuments.length > 0 && (
+                <ul className="list-group mb-3">
+                    {existingDocuments.map((documentId, index) => (
+                        <li key={documentId} className="list-group-item d-flex align-items-center">
+                            <i className="ri-file-text-line fs-18 me-2"></i>
+                            <span className="me-auto">Documento {index + 1} <small className="text-muted">({documentId})</small></span>
+                            <Button color="danger" size="sm" className="btn-icon" onClick={() => handleRemoveDocument(documentId)}>
+                                <i className="ri-delete-bin-line"></i>
+                            </Button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <FileUploader
+                acceptedFileTypes={['image/*', 'application/pdf']} // Imágenes y PDFs
+                onFileUpload={handleFileUpload}
+                onFileRemove={handleFileRemove}
+            />
+
+            {uploading > 0 && (
+                <div className="text-muted">
+                    <Spinner size="sm" className="me-2" />
+                    Subiendo documentos...
+                </div>
+            )}
+        </>
+    );
+};
+
+export default DocumentsField;
@@ -11,6 +11,7 @@ registerPlugin(FilePondPluginImagePreview, FilePondPluginFileValidateType);
 interface FileUploaderProps {
   acceptedFileTypes?: string[];
   onFileUpload?: (file: File) => void;
+  onFileRemove?: (file: File) => void;
   maxFiles?: number
   imageSrc?: string
 }
@@ -18,6 +19,7 @@ interface FileUploaderProps {
 const FileUploader: React.FC<FileUploaderProps> = ({
   acceptedFileTypes = ['image/*'],
   onFileUpload,
+  onFileRemove,
   maxFiles,
   imageSrc
 }) => {
@@ -47,6 +49,11 @@ const FileUploader: React.FC<FileUploaderProps> = ({
           const file = fileItem.file as File;
           handleFileUpload(file);  // Pasamos el archivo como un `File` estándar
         }}
+        onremovefile={(error, fileItem) => {
+          if (!error && onFileRemove) {
+            onFileRemove(fileItem.file as File);
+          }
+        }}
         allowMultiple={true}
         maxFiles={maxFiles}
         name="files"
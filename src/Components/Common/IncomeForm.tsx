@@ -6,10 +6,15 @@ import CustomTable from "./CustomTable";
 import { APIClient } from "helpers/api_helper";
 import SupplierForm from "./SupplierForm";
 import ProductForm, { ProductData } from "./ProductForm";
+import { useCategories } from "Components/Hooks/CategoryHooks";
 import Flatpickr from 'react-flatpickr';
-import SelectTable from "./SelectTable";
+import SelectTable, { SelectedProduct } from "./SelectTable";
 import { useNavigate } from "react-router-dom";
-import FileUploader from "./FileUploader";
+import DocumentsField from "./DocumentsField";
+import { useWarehouse } from "Components/Hooks/WarehouseHooks";
+import { usePermissions } from "Components/Hooks/PermissionHooks";
+import { PurchaseOrderData } from "./PurchaseOrderForm";
+import { calculateTaxes, taxRateLabel } from "helpers/tax_helper";
 
 const axiosHelper = new APIClient();
 const apiUrl = process.env.REACT_APP_API_URL;
@@ -18,12 +23,16 @@ interface IncomeFormProps {
     initialData?: IncomeData;
     onSubmit: (data: IncomeData) => Promise<void>;
     onCancel: () => void;
+    purchaseOrderId?: string; // Orden de compra contra la que se recibe la entrada
 }
 
 interface Product {
     id: string;
     quantity: number;
     price: number;
+    lot?: string;
+    expirationDate?: string; // Solo productos de categorías controladas por lote
+    taxRate?: number;
 }
 
 interface Origin {
@@ -31,16 +40,35 @@ interface Origin {
     id: string
 }
 
+export interface PaymentTerms {
+    type: string; // cash | credit
+    creditDays: number;
+}
+
 export interface IncomeData {
     id: string;
     warehouse: string;
     date: string; // ISO string
     products: Array<Product>;
+    subtotal: number;
+    tax: number;
     totalPrice: number;
     incomeType: string;
     origin: Origin;
     documents: Array<string>;
     status: boolean;
+    purchaseOrder?: string;
+    paymentTerms: PaymentTerms;
+    version?: number; // Número de la última corrección aplicada
+    voidReason?: string;
+    voidDate?: string;
+}
+
+export interface IncomeVersion {
+    version: number; // La versión 1 es la entrada tal como se registró
+    date: string;
+    reason: string;
+    data: IncomeData;
 }
 
 export interface SupplierData {
@@ -52,17 +80,114 @@ export interface SupplierData {
     supplier_type: string;
     status: boolean;
     rnc: string;
+    taxRegistered?: boolean;
 }
 
+export const documentsFolders = ['Incomes', 'Documents'];
+
 const incomeTypeOptions = [
     { label: "Compra", value: "purchase" },
 ];
 
+export const paymentTypeOptions = [
+    { label: "Contado", value: "cash" },
+    { label: "Crédito", value: "credit" },
+];
+
+/**
+ * Diferencia de cantidad por producto al sustituir las líneas de una entrada por otras.
+ * Al anular una entrada no hay líneas nuevas, por lo que todas las cantidades salen del almacén
+ * @param {*} before
+ * @param {*} after
+ */
+export const quantityChanges = (before: Array<Product>, after: Array<Product>): Array<{ id: string; quantity: number }> => {
+    const changes: Record<string, number> = {};
+
+    before.forEach((line) => changes[line.id] = (changes[line.id] || 0) - line.quantity);
+    after.forEach((line) => changes[line.id] = (changes[line.id] || 0) + line.quantity);
+
+    return Object.entries(changes)
+        .filter(([, quantity]) => quantity !== 0)
+        .map(([id, quantity]) => ({ id, quantity }));
+}
+
+/**
+ * Productos cuya existencia actual no alcanza para retirar las cantidades reducidas,
+ * señal de que ese stock ya se transfirió o consumió
+ * @param {*} changes
+ * @param {*} inventory
+ */
+export const findUnavailableStock = (changes: Array<{ id: string; quantity: number }>, inventory: Array<{ id: string; quantity: number }>) => {
+    return changes
+        .filter((change) => change.quantity < 0)
+        .map((change) => ({
+            id: change.id,
+            required: -change.quantity,
+            available: inventory.find((p) => p.id === change.id)?.quantity || 0,
+        }))
+        .filter((line) => line.available < line.required);
+}
+
+const incomeFieldLabels: Array<{ label: string; value: (income: IncomeData) => any }> = [
+    { label: 'Fecha', value: (income) => income.date },
+    { label: 'Tipo de alta', value: (income) => income.incomeType },
+    { label: 'Proveedor', value: (income) => income.origin?.id },
+    { label: 'Forma de pago', value: (income) => income.paymentTerms?.type },
+    { label: 'Días de crédito', value: (income) => income.paymentTerms?.creditDays },
+    { label: 'Subtotal', value: (income) => income.subtotal },
+    { label: 'ITBIS', value: (income) => income.tax },
+    { label: 'Precio Total', value: (income) => income.totalPrice },
+    { label: 'Documentos', value: (income) => income.documents?.length },
+];
+
+const productFieldLabels: Array<{ key: keyof Product; label: string }> = [
+    { key: 'quantity', label: 'Cantidad' },
+    { key: 'price', label: 'Precio Unitario' },
+    { key: 'taxRate', label: 'ITBIS' },
+    { key: 'lot', label: 'Lote' },
+    { key: 'expirationDate', label: 'Caducidad' },
+];
+
+/**
+ * Lista de campos que cambiaron entre dos versiones de una entrada, incluidas las líneas de productos
+ * @param {*} before
+ * @param {*} after
+ */
+export const diffIncomes = (before: IncomeData, after: IncomeData): Array<{ field: string; before: string; after: string }> => {
+    const format = (value: any) => value === undefined || value === null || value === '' ? '-' : String(value);
+    const diff: Array<{ field: string; before: string; after: string }> = [];
+
+    incomeFieldLabels.forEach(({ label, value }) => {
+        if (format(value(before)) !== format(value(after))) {
+            diff.push({ field: label, before: format(value(before)), after: format(value(after)) });
+        }
+    });
 
-const validationSchema = Yup.object({
+    const productIds = Array.from(new Set([...before.products, ...after.products].map((p) => p.id)));
+    productIds.forEach((id) => {
+        const previous = before.products.find((p) => p.id === id);
+        const current = after.products.find((p) => p.id === id);
+
+        if (!previous || !current) {
+            diff.push({ field: `Producto ${id}`, before: previous ? `${previous.quantity} x $${previous.price}` : '-', after: current ? `${current.quantity} x $${current.price}` : '-' });
+            return;
+        }
+
+        productFieldLabels.forEach(({ key, label }) => {
+            if (format(previous[key]) !== format(current[key])) {
+                diff.push({ field: `Producto ${id} - ${label}`, before: format(previous[key]), after: format(current[key]) });
+            }
+        });
+    });
+
+    return diff;
+}
+
+const validationSchema = (isEditing: boolean) => Yup.object({
     id: Yup.string()
         .required("Por favor, ingrese el ID")
         .test('unique_id', "Este identificador ya existe, por favor ingrese otro", async (value) => {
+            if (isEditing) return true;
             if (!value) return false;
             try {
                 const result = await axiosHelper.get(`${apiUrl}/incomes/income_id_exists/${value}`);
@@ -78,21 +203,48 @@ const validationSchema = Yup.object({
     origin: Yup.object({
         id: Yup.string().required("Por favor, seleccione un proveedor"),
     }),
-    documents: Yup.array().of(Yup.string()).required("Por favor, agregue al menos un documento"),
+    paymentTerms: Yup.object().when('incomeType', {
+        is: 'purchase',
+        then: (schema) => schema.shape({
+            type: Yup.string().required("Por favor, seleccione la forma de pago"),
+            creditDays: Yup.number().when('type', {
+                is: 'credit',
+                then: (days) => days.moreThan(0, "Por favor, ingrese los días de crédito"),
+            }),
+        }),
+    }),
+    documents: Yup.array().of(Yup.string()).min(1, "Por favor, agregue al menos un documento").required("Por favor, agregue al menos un documento"),
+    products: Yup.array().of(
+        Yup.object({
+            // Los campos solo existen en las líneas de productos controlados por lote
+            lot: Yup.string().test('lot_required', 'Por favor, ingrese el lote', (value) => value === undefined || value.trim() !== ''),
+            expirationDate: Yup.string().test('expiration_required', 'Por favor, ingrese la fecha de caducidad', (value) => value === undefined || value !== ''),
+        })
+    ),
 });
 
 
-const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel }) => {
+const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel, purchaseOrderId }) => {
     const axiosHelper = new APIClient()
     const apiUrl = process.env.REACT_APP_API_URL
     const history = useNavigate()
+    const { warehouseId } = useWarehouse();
+    const { can } = usePermissions();
+    const { isLotTrackedCategory, getCategoryTaxRate } = useCategories();
 
     const [cancelModalOpen, setCancelModalOpen] = useState(false);
     const [suppliers, setSuppliers] = useState<SupplierData[]>([]);
     const [selectedSupplier, setSelectedSupplier] = useState<SupplierData | null>(null);
     const [modals, setModals] = useState({ createSupplier: false, createProduct: false });
     const [products, setProducts] = useState([])
+    const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrderData[]>([])
+    const [purchaseOrderLines, setPurchaseOrderLines] = useState<Array<SelectedProduct>>([])
     const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
+    const [uploadingDocuments, setUploadingDocuments] = useState<boolean>(false);
+
+    // Las compras a proveedores que no son contribuyentes de ITBIS no llevan impuesto
+    const chargesTax = selectedSupplier?.taxRegistered !== false;
+    const taxableLines = (lines: Array<Product>) => chargesTax ? lines : lines.map((line) => ({ ...line, taxRate: 0 }));
 
     const toggleModal = (modalName: keyof typeof modals, state?: boolean) => {
         setModals((prev) => ({ ...prev, [modalName]: state ?? !prev[modalName] }));
@@ -123,12 +275,26 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel
     }
 
 
-    const formik = useFormik({
-        initialValues: initialData || {
+    // Solo se puede recibir contra órdenes enviadas o recibidas parcialmente
+    const fetchPurchaseOrders = async () => {
+        await axiosHelper.get(`${apiUrl}/purchase_orders/find_warehouse_purchase_orders/${warehouseId}`)
+            .then((response) => {
+                setPurchaseOrders(response.data.data.filter((order: PurchaseOrderData) => order.status === 'sent' || order.status === 'partially_received'))
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener las órdenes de compra, intentelo más tarde')
+            })
+    }
+
+    const formik = useFormik<IncomeData>({
+        // Las entradas registradas antes de las condiciones de pago no tienen paymentTerms y se tratan como de contado
+        initialValues: initialData ? { ...initialData, paymentTerms: initialData.paymentTerms ?? { type: 'cash', creditDays: 0 } } : {
             id: "",
-            warehouse: 'AG001',
+            warehouse: warehouseId,
             date: "",
             products: [],
+            subtotal: 0,
+            tax: 0,
             totalPrice: 0,
             incomeType: "",
             origin: {
@@ -137,15 +303,20 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel
             },
             documents: [],
             status: true,
+            purchaseOrder: "",
+            paymentTerms: {
+                type: "cash",
+                creditDays: 0,
+            },
         },
         enableReinitialize: true,
-        validationSchema,
+        validationSchema: validationSchema(!!initialData),
         validateOnChange: false,
         validateOnBlur: true,
         onSubmit: async (values, { setSubmitting, resetForm }) => {
             try {
                 setSubmitting(true);
-                await onSubmit(values);
+                await onSubmit({ ...values, products: taxableLines(values.products) });
             } catch (error) {
                 console.error("Error al enviar el formulario:", error);
             } finally {
@@ -160,6 +331,36 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel
         formik.setFieldValue("origin.id", supplierId);
     };
 
+    const handlePurchaseOrderChange = async (orderId: string) => {
+        if (!orderId) {
+            formik.setFieldValue("purchaseOrder", "");
+            setPurchaseOrderLines([]);
+            formik.setFieldValue("products", []);
+            return;
+        }
+
+        await axiosHelper.get(`${apiUrl}/purchase_orders/find_purchase_order_id/${orderId}`)
+            .then((response) => {
+                const order: PurchaseOrderData = response.data.data;
+                const pendingLines = order.products
+                    .filter((line) => line.quantity > (line.received || 0))
+                    .map((line) => {
+                        const product: any = products.find((p: ProductData) => p.id === line.id);
+                        const lotFields = isLotTrackedCategory(product?.category) ? { lot: "", expirationDate: "" } : {};
+                        return { id: line.id, quantity: line.quantity - (line.received || 0), price: line.price, taxRate: getCategoryTaxRate(product?.category), ...lotFields };
+                    });
+
+                setPurchaseOrderLines(pendingLines);
+                formik.setFieldValue("purchaseOrder", orderId);
+                formik.setFieldValue("incomeType", "purchase");
+                formik.setFieldValue("origin.id", order.supplier);
+                formik.setFieldValue("products", pendingLines);
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener la orden de compra, intentelo más tarde')
+            })
+    }
+
     const handleCreateSupplier = async (supplierData: SupplierData) => {
         try {
             const response = await axiosHelper.create(`${apiUrl}/supplier/create_supplier`, supplierData);
@@ -192,11 +393,7 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel
         }
     }
 
-    const handleFileUpload = (file: File) => {
-        console.log('Archivo cargado:', file.name);
-    }
-
-    const handleProductSelect = (selectedProducts: Array<{ id: string; quantity: number; price: number }>) => {
+    const handleProductSelect = (selectedProducts: Array<SelectedProduct>) => {
         formik.setFieldValue("products", selectedProducts);
     };
 
@@ -205,6 +402,15 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel
         fetchSuppliers();
     }, [])
 
+    useEffect(() => {
+        if (!warehouseId) return;
+        fetchPurchaseOrders();
+    }, [warehouseId])
+
+    useEffect(() => {
+        if (purchaseOrderId && products.length > 0) handlePurchaseOrderChange(purchaseOrderId);
+    }, [purchaseOrderId, products])
+
     useEffect(() => {
         const supplier = suppliers.find((s) => s.id === formik.values.origin.id) || null;
         setSelectedSupplier(supplier);
@@ -212,13 +418,11 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel
     }, [formik.values.origin.id, suppliers]);
 
     useEffect(() => {
-        const subtotal = formik.values.products.reduce(
-            (sum, product) => sum + (product.quantity * product.price || 0),
-            0
-        );
-        const totalWithTax = subtotal * 1.18;
-        formik.setFieldValue("totalPrice", parseFloat(totalWithTax.toFixed(2)));
-    }, [formik.values.products]);
+        const { subtotal, tax, total } = calculateTaxes(taxableLines(formik.values.products));
+        formik.setFieldValue("subtotal", subtotal);
+        formik.setFieldValue("tax", tax);
+        formik.setFieldValue("totalPrice", total);
+    }, [formik.values.products, chargesTax]);
 
 
 
@@ -242,6 +446,7 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel
                                 onChange={formik.handleChange}
                                 onBlur={formik.handleBlur}
                                 invalid={formik.touched.id && !!formik.errors.id}
+                                disabled={!!initialData}
                             />
                             {formik.touched.id && formik.errors.id && <FormFeedback>{formik.errors.id}</FormFeedback>}
                         </div>
@@ -271,8 +476,6 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel
                     </Col>
                 </Row>
 
-                {/* Agregar campo de compra de contado o a meses cuando el tipo de ingreso sea compra */}
-
                 {/* Tipo de Ingreso */}
                 <div className="mt-4">
                     <Label htmlFor="incomeTypeInput" className="form-label">Tipo de Ingreso</Label>
@@ -295,13 +498,81 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel
                     {formik.touched.incomeType && formik.errors.incomeType && <FormFeedback>{formik.errors.incomeType}</FormFeedback>}
                 </div>
 
+                {/* Condiciones de pago */}
+                {formik.values.incomeType === 'purchase' && (
+                    <Row className="mt-4">
+                        <Col lg={6}>
+                            <Label htmlFor="paymentTypeInput" className="form-label">Forma de Pago</Label>
+                            <Input
+                                type="select"
+                                id="paymentTypeInput"
+                                name="paymentTerms.type"
+                                value={formik.values.paymentTerms.type}
+                                onChange={(e) => {
+                                    formik.setFieldValue("paymentTerms.type", e.target.value);
+                                    if (e.target.value === 'cash') formik.setFieldValue("paymentTerms.creditDays", 0);
+                                }}
+                                onBlur={formik.handleBlur}
+                                invalid={formik.touched.paymentTerms?.type && !!formik.errors.paymentTerms?.type}
+                            >
+                                {paymentTypeOptions.map((type) => (
+                                    <option key={type.value} value={type.value}>
+                                        {type.label}
+                                    </option>
+                                ))}
+                            </Input>
+                            {formik.touched.paymentTerms?.type && formik.errors.paymentTerms?.type && <FormFeedback>{formik.errors.paymentTerms?.type}</FormFeedback>}
+                        </Col>
+
+                        <Col lg={6}>
+                            <Label htmlFor="creditDaysInput" className="form-label">Días de Crédito</Label>
+                            <Input
+                                type="number"
+                                id="creditDaysInput"
+                                name="paymentTerms.creditDays"
+                                value={formik.values.paymentTerms.creditDays}
+                                onChange={formik.handleChange}
+                                onBlur={formik.handleBlur}
+                                invalid={formik.touched.paymentTerms?.creditDays && !!formik.errors.paymentTerms?.creditDays}
+                                disabled={formik.values.paymentTerms.type !== 'credit'}
+                            />
+                            {formik.touched.paymentTerms?.creditDays && formik.errors.paymentTerms?.creditDays && <FormFeedback>{formik.errors.paymentTerms?.creditDays}</FormFeedback>}
+                        </Col>
+                    </Row>
+                )}
+
+                {/* Orden de compra */}
+                <div className="mt-4">
+                    <Label htmlFor="purchaseOrderInput" className="form-label">Orden de Compra (opcional)</Label>
+                    <Input
+                        type="select"
+                        id="purchaseOrderInput"
+                        name="purchaseOrder"
+                        value={formik.values.purchaseOrder}
+                        onChange={(e) => handlePurchaseOrderChange(e.target.value)}
+                        disabled={!!initialData}
+                    >
+                        <option value=''>Sin orden de compra</option>
+                        {initialData?.purchaseOrder && !purchaseOrders.some((order) => order.id === initialData.purchaseOrder) && (
+                            <option value={initialData.purchaseOrder}>{initialData.purchaseOrder}</option>
+                        )}
+                        {purchaseOrders.map((order) => (
+                            <option key={order.id} value={order.id}>
+                                {order.id} - {order.date}
+                            </option>
+                        ))}
+                    </Input>
+                </div>
+
                 {/* Datos del proveedor */}
                 <div className="d-flex mt-4">
                     <h5 className="me-auto">Datos del Proveedor</h5>
-                    <Button color="secondary" className="h-50 mb-2" onClick={() => toggleModal('createSupplier')}>
-                        <i className="ri-add-line me-2"></i>
-                        Nuevo Proveedor
-                    </Button>
+                    {can('suppliers.create') && (
+                        <Button color="secondary" className="h-50 mb-2" onClick={() => toggleModal('createSupplier')}>
+                            <i className="ri-add-line me-2"></i>
+                            Nuevo Proveedor
+                        </Button>
+                    )}
                 </div>
 
                 <div className="border"></div>
@@ -316,6 +587,7 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel
                         value={formik.values.origin.id} // Valor controlado por formik
                         onChange={(e) => handleSupplierChange(e.target.value)} // Sincroniza el cambio
                         onBlur={formik.handleBlur}
+                        disabled={!!formik.values.purchaseOrder}
                         invalid={formik.touched.origin?.id && !!formik.errors.origin?.id}
                     >
                         <option value=''>Seleccione un proveedor</option>
@@ -359,48 +631,108 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel
                 {/* Productos */}
                 <div className="d-flex mt-5">
                     <h5 className="me-auto">Productos</h5>
-                    <Button color="secondary" className="h-50 mb-2" onClick={() => { toggleModal('createProduct') }}>
-                        <i className="ri-add-line me-2"></i>
-                        Nuevo Producto
-                    </Button>
+                    {can('products.create') && (
+                        <Button color="secondary" className="h-50 mb-2" onClick={() => { toggleModal('createProduct') }}>
+                            <i className="ri-add-line me-2"></i>
+                            Nuevo Producto
+                        </Button>
+                    )}
                 </div>
                 <div className="border"></div>
 
                 {/* Tabla de productos */}
                 <div className="mt-3 border border-0">
-                    <SelectTable data={products} onProductSelect={handleProductSelect}></SelectTable>
+                    <SelectTable
+                        key={formik.values.purchaseOrder || 'no_purchase_order'}
+                        data={products}
+                        onProductSelect={handleProductSelect}
+                        showLots={true}
+                        showTax={chargesTax}
+                        defaultSelected={initialData ? initialData.products : purchaseOrderLines}
+                    ></SelectTable>
+                    {formik.errors.products && (
+                        <FormFeedback className="d-block">
+                            Por favor, ingrese el lote y la fecha de caducidad de los productos controlados por lote
+                        </FormFeedback>
+                    )}
                 </div>
 
-                {/* Precio Total  */}
-                <div className="mt-4">
-                    <Label htmlFor="totalPriceInput" className="form-label">Precio Total</Label>
-                    <div className="form-icon">
-                        <Input
-                            className="form-control form-control-icon"
-                            type="number"
-                            id="totalPriceInput"
-                            name="totalPrice"
-                            value={formik.values.totalPrice}
-                            onChange={formik.handleChange}
-                            onBlur={formik.handleBlur}
-                            invalid={formik.touched.totalPrice && !!formik.errors.totalPrice}
-                            disabled={true}
-                        />
-                        <i>$</i>
-                    </div>
-                    {formik.touched.totalPrice && formik.errors.totalPrice && <FormFeedback>{formik.errors.totalPrice}</FormFeedback>}
-                </div>
+                {/* Subtotal, ITBIS y Precio Total */}
+                <Row className="mt-4">
+                    <Col lg={4}>
+                        <Label htmlFor="subtotalInput" className="form-label">Subtotal</Label>
+                        <div className="form-icon">
+                            <Input
+                                className="form-control form-control-icon"
+                                type="number"
+                                id="subtotalInput"
+                                name="subtotal"
+                                value={formik.values.subtotal}
+                                disabled={true}
+                            />
+                            <i>$</i>
+                        </div>
+                    </Col>
+
+                    <Col lg={4}>
+                        <Label htmlFor="taxInput" className="form-label">ITBIS</Label>
+                        <div className="form-icon">
+                            <Input
+                                className="form-control form-control-icon"
+                                type="number"
+                                id="taxInput"
+                                name="tax"
+                                value={formik.values.tax}
+                                disabled={true}
+                            />
+                            <i>$</i>
+                        </div>
+                    </Col>
+
+                    <Col lg={4}>
+                        <Label htmlFor="totalPriceInput" className="form-label">Precio Total</Label>
+                        <div className="form-icon">
+                            <Input
+                                className="form-control form-control-icon"
+                                type="number"
+                                id="totalPriceInput"
+                                name="totalPrice"
+                                value={formik.values.totalPrice}
+                                onChange={formik.handleChange}
+                                onBlur={formik.handleBlur}
+                                invalid={formik.touched.totalPrice && !!formik.errors.totalPrice}
+                                disabled={true}
+                            />
+                            <i>$</i>
+                        </div>
+                        {formik.touched.totalPrice && formik.errors.totalPrice && <FormFeedback>{formik.errors.totalPrice}</FormFeedback>}
+                    </Col>
+                </Row>
+
+                {!chargesTax && (
+                    <Alert color="info" className="mt-3 mb-0">
+                        El proveedor no es contribuyente de ITBIS, los productos de esta entrada no llevan impuesto.
+                    </Alert>
+                )}
 
-                <Label className="mt-1">ITBIS: 18%</Label>
+                {calculateTaxes(taxableLines(formik.values.products)).breakdown.map((group) => (
+                    <Label key={group.rate} className="mt-1 me-3 text-muted">
+                        {taxRateLabel(group.rate)}: ${group.tax.toFixed(2)} sobre ${group.base.toFixed(2)}
+                    </Label>
+                ))}
 
 
                 {/* Documentos */}
                 <div className="mt-4">
                     <Label htmlFor="documentsInput" className="form-label">Documentos</Label>
-                    <FileUploader
-                        acceptedFileTypes={['image/*', 'application/pdf']} // Imágenes y PDFs
-                        onFileUpload={handleFileUpload}
+                    <DocumentsField
+                        documents={formik.values.documents}
+                        onChange={(documents) => formik.setFieldValue("documents", documents)}
+                        folders={documentsFolders}
+                        onUploadingChange={setUploadingDocuments}
+                        onError={(error) => handleError(error, 'Ha ocurrido un error al subir el documento, intentelo más tarde')}
                     />
+                    {formik.touched.documents && formik.errors.documents && <FormFeedback className="d-block">{formik.errors.documents as string}</FormFeedback>}
 
                 </div>
 
@@ -409,7 +741,7 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ initialData, onSubmit, onCancel
                     <Button color="danger" onClick={() => setCancelModalOpen(true)} disabled={formik.isSubmitting}>
                         Cancelar
                     </Button>
-                    <Button color="success" type="submit" disabled={formik.isSubmitting}>
+                    <Button color="success" type="submit" disabled={formik.isSubmitting || uploadingDocuments}>
                         {formik.isSubmitting ? "Guardando..." : initialData ? "Actualizar Transacción" : "Registrar Transacción"}
                     </Button>
                 </div>
@@ -1,50 +1,221 @@
-import React, { useState } from 'react';
-import { Col, Dropdown, DropdownMenu, DropdownToggle, Nav, NavItem, NavLink, Row, TabContent, TabPane } from 'reactstrap';
+import React, { useEffect, useState } from 'react';
+import { Col, Dropdown, DropdownMenu, DropdownToggle, Input, Nav, NavItem, NavLink, Row, TabContent, TabPane } from 'reactstrap';
 import { Link } from 'react-router-dom';
 import classnames from 'classnames';
+import { APIClient, getLoggedinUser } from 'helpers/api_helper';
+import { daysUntil } from 'helpers/date_helper';
+import { useWarehouse } from 'Components/Hooks/WarehouseHooks';
+import { isBelowMinimum } from 'helpers/reorder_helper';
 
 //import images
-import avatar2 from "../../assets/images/users/avatar-2.jpg";
-import avatar8 from "../../assets/images/users/avatar-8.jpg";
-import avatar3 from "../../assets/images/users/avatar-3.jpg";
-import avatar6 from "../../assets/images/users/avatar-6.jpg";
 import bell from "../../assets/images/svg/bell.svg";
 
 //SimpleBar
 import SimpleBar from "simplebar-react";
 
+interface InventoryNotification {
+    id: string;
+    type: 'expiring' | 'expired' | 'reorder';
+    title: string;
+    description: string;
+    link: string;
+}
+
+const DEFAULT_EXPIRATION_DAYS = 30;
+
+const notificationStyles = {
+    expiring: { color: 'warning', icon: 'ri-timer-line' },
+    expired: { color: 'danger', icon: 'ri-error-warning-line' },
+    reorder: { color: 'info', icon: 'ri-shopping-cart-2-line' },
+};
+
+// El estado de leído y los días de anticipación se guardan por usuario en el navegador
+const getUserKey = () => {
+    const user = getLoggedinUser();
+    return user?.data?._id || user?.uid || user?.email || user?.data?.email || 'default';
+}
+
 const NotificationDropdown = () => {
+    const apiUrl = process.env.REACT_APP_API_URL;
+    const axiosHelper = new APIClient();
+    const { warehouseId } = useWarehouse();
+    const userKey = getUserKey();
+
+    const [notifications, setNotifications] = useState<InventoryNotification[]>([]);
+    const [readIds, setReadIds] = useState<string[]>(() => JSON.parse(localStorage.getItem(`notificationsRead_${userKey}`) || '[]'));
+    // 0 es un valor válido guardado por el usuario, solo se usa el valor por defecto si no hay uno guardado
+    const [expirationDays, setExpirationDays] = useState<number>(() => {
+        const parsed = parseInt(localStorage.getItem(`notificationsExpirationDays_${userKey}`) || '');
+        return Number.isNaN(parsed) ? DEFAULT_EXPIRATION_DAYS : parsed;
+    });
+
     //Dropdown Toggle
     const [isNotificationDropdown, setIsNotificationDropdown] = useState<boolean>(false);
     const toggleNotificationDropdown = () => {
         setIsNotificationDropdown(!isNotificationDropdown);
     };
 
-    //Tab 
+    //Tab
     const [activeTab, setActiveTab] = useState('1');
     const toggleTab = (tab : any) => {
         if (activeTab !== tab) {
             setActiveTab(tab);
         }
     };
+
+    const handleFetchNotifications = async () => {
+        const productLink = (productId: string) => `/warehouse/inventory/product_details?product=${productId}&warehouse=${warehouseId}`;
+        const result: InventoryNotification[] = [];
+
+        await axiosHelper.get(`${apiUrl}/warehouse/find_lots/${warehouseId}`)
+            .then((response) => {
+                const lots = response.data.data.filter((lot: any) => lot.quantity > 0);
+
+                lots.forEach((lot: any) => {
+                    const days = daysUntil(lot.expirationDate);
+                    if (days === null || days > expirationDays) return;
+
+                    const expired = days < 0;
+                    result.push({
+                        id: `${expired ? 'expired' : 'expiring'}_${lot.productId}_${lot.lot}`,
+                        type: expired ? 'expired' : 'expiring',
+                        title: `${lot.productName} - Lote ${lot.lot}`,
+                        description: expired
+                            ? `Caducado el ${lot.expirationDate} con ${lot.quantity} en existencia`
+                            : `Caduca en ${days} días (${lot.expirationDate}), ${lot.quantity} en existencia`,
+                        link: productLink(lot.productId),
+                    });
+                });
+            })
+            .catch((error) => {
+                console.error('Error al obtener los lotes del almacén', error);
+            });
+
+        await axiosHelper.get(`${apiUrl}/warehouse/get_inventory/${warehouseId}`)
+            .then((response) => {
+                const inventory = response.data.data.filter(isBelowMinimum);
+
+                inventory.forEach((product: any) => {
+                    result.push({
+                        id: `reorder_${warehouseId}_${product.id}`,
+                        type: 'reorder',
+                        title: product.name,
+                        description: `Existencias (${product.quantity}) por debajo del mínimo (${product.minStock})`,
+                        link: productLink(product.id),
+                    });
+                });
+            })
+            .catch((error) => {
+                console.error('Error al obtener el inventario del almacén', error);
+            });
+
+        setNotifications(result);
+    }
+
+    const markAsRead = (ids: string[]) => {
+        const updated = Array.from(new Set([...readIds, ...ids]));
+        setReadIds(updated);
+        localStorage.setItem(`notificationsRead_${userKey}`, JSON.stringify(updated));
+    }
+
+    const toggleRead = (id: string) => {
+        const updated = readIds.includes(id) ? readIds.filter((readId) => readId !== id) : [...readIds, id];
+        setReadIds(updated);
+        localStorage.setItem(`notificationsRead_${userKey}`, JSON.stringify(updated));
+    }
+
+    const handleExpirationDaysChange = (value: string) => {
+        const days = parseInt(value) || 0;
+        setExpirationDays(days);
+        localStorage.setItem(`notificationsExpirationDays_${userKey}`, String(days));
+    }
+
+    useEffect(() => {
+        if (!warehouseId) return;
+        handleFetchNotifications();
+    }, [warehouseId, expirationDays])
+
+    const unread = notifications.filter((n) => !readIds.includes(n.id));
+    const expirationNotifications = notifications.filter((n) => n.type !== 'reorder');
+    const reorderNotifications = notifications.filter((n) => n.type === 'reorder');
+
+    const renderNotifications = (items: InventoryNotification[]) => (
+        items.length > 0 ? (
+            <SimpleBar style={{ maxHeight: "300px" }} className="pe-2">
+                {items.map((notification) => {
+                    const isRead = readIds.includes(notification.id);
+                    return (
+                        <div key={notification.id} className={classnames("text-reset notification-item d-block dropdown-item position-relative", { active: !isRead })}>
+                            <div className="d-flex">
+                                <div className="avatar-xs me-3">
+                                    <span className={`avatar-title bg-${notificationStyles[notification.type].color}-subtle text-${notificationStyles[notification.type].color} rounded-circle fs-16`}>
+                                        <i className={notificationStyles[notification.type].icon}></i>
+                                    </span>
+                                </div>
+                                <div className="flex-grow-1">
+                                    <Link to={notification.link} className="stretched-link" onClick={() => { markAsRead([notification.id]); setIsNotificationDropdown(false); }}>
+                                        <h6 className="mt-0 mb-1 fs-13 fw-semibold">{notification.title}</h6>
+                                    </Link>
+                                    <div className="fs-13 text-muted">
+                                        <p className="mb-1">{notification.description}</p>
+                                    </div>
+                                </div>
+                                <div className="px-2 fs-15 position-relative" style={{ zIndex: 2 }}>
+                                    <div className="form-check notification-check">
+                                        <input
+                                            className="form-check-input"
+                                            type="checkbox"
+                                            id={`notification-check-${notification.id}`}
+                                            title={isRead ? "Marcar como no leída" : "Marcar como leída"}
+                                            checked={isRead}
+                                            onChange={() => toggleRead(notification.id)}
+                                        />
+                                        <label className="form-check-label" htmlFor={`notification-check-${notification.id}`}></label>
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+                    )
+                })}
+
+                <div className="my-3 text-center">
+                    <button type="button" className="btn btn-soft-success waves-effect waves-light" onClick={() => markAsRead(items.map((n) => n.id))}>
+                        Marcar todas como leídas <i className="ri-check-double-line align-middle"></i>
+                    </button>
+                </div>
+            </SimpleBar>
+        ) : (
+            <div className="p-4">
+                <div className="w-25 w-sm-50 pt-3 mx-auto">
+                    <img src={bell} className="img-fluid" alt="bell" />
+                </div>
+                <div className="text-center pb-5 mt-2">
+                    <h6 className="fs-18 fw-semibold lh-base">No hay notificaciones</h6>
+                </div>
+            </div>
+        )
+    );
+
     return (
         <React.Fragment>
             <Dropdown isOpen={isNotificationDropdown} toggle={toggleNotificationDropdown} className="topbar-head-dropdown ms-1 header-item">
                 <DropdownToggle type="button" tag="button" className="btn btn-icon btn-topbar btn-ghost-secondary rounded-circle">
                     <i className='bx bx-bell fs-22'></i>
-                    <span
-                        className="position-absolute topbar-badge fs-10 translate-middle badge rounded-pill bg-danger">3<span
-                            className="visually-hidden">unread messages</span></span>
+                    {unread.length > 0 && (
+                        <span
+                            className="position-absolute topbar-badge fs-10 translate-middle badge rounded-pill bg-danger">{unread.length}<span
+                                className="visually-hidden">notificaciones sin leer</span></span>
+                    )}
                 </DropdownToggle>
                 <DropdownMenu className="dropdown-menu-lg dropdown-menu-end p-0">
                     <div className="dropdown-head bg-primary bg-pattern rounded-top">
                         <div className="p-3">
                             <Row className="align-items-center">
                                 <Col>
-                                    <h6 className="m-0 fs-16 fw-semibold text-white"> Notifications </h6>
+                                    <h6 className="m-0 fs-16 fw-semibold text-white"> Notificaciones </h6>
                                 </Col>
                                 <div className="col-auto dropdown-tabs">
-                                    <span className="badge bg-light-subtle fs-13 text-body"> 4 New</span>
+                                    <span className="badge bg-light-subtle fs-13 text-body"> {unread.length} Sin leer</span>
                                 </div>
                             </Row>
                         </div>
@@ -57,7 +228,7 @@ const NotificationDropdown = () => {
                                         className={classnames({ active: activeTab === '1' })}
                                         onClick={() => { toggleTab('1'); }}
                                     >
-                                        All (4)
+                                        Todas ({notifications.length})
                                     </NavLink>
                                 </NavItem>
                                 <NavItem>
@@ -66,7 +237,7 @@ const NotificationDropdown = () => {
                                         className={classnames({ active: activeTab === '2' })}
                                         onClick={() => { toggleTab('2'); }}
                                     >
-                                        Messages
+                                        Caducidad
                                     </NavLink>
                                 </NavItem>
                                 <NavItem>
@@ -75,7 +246,7 @@ const NotificationDropdown = () => {
                                         className={classnames({ active: activeTab === '3' })}
                                         onClick={() => { toggleTab('3'); }}
                                     >
-                                        Alerts
+                                        Reorden
                                     </NavLink>
                                 </NavItem>
                             </Nav>
@@ -85,228 +256,35 @@ const NotificationDropdown = () => {
 
                     <TabContent activeTab={activeTab}>
                         <TabPane tabId="1" className="py-2 ps-2">
-                            <SimpleBar style={{ maxHeight: "300px" }} className="pe-2">
-                                <div className="text-reset notification-item d-block dropdown-item position-relative">
-                                    <div className="d-flex">
-                                        <div className="avatar-xs me-3">
-                                            <span className="avatar-title bg-info-subtle text-info rounded-circle fs-16">
-                                                <i className="bx bx-badge-check"></i>
-                                            </span>
-                                        </div>
-                                        <div className="flex-grow-1">
-                                            <Link to="#" className="stretched-link">
-                                                <h6 className="mt-0 mb-2 lh-base">Your <b>Elite</b> author Graphic
-                                                    Optimization <span className="text-secondary">reward</span> is ready!
-                                                </h6>
-                                            </Link>
-                                            <p className="mb-0 fs-11 fw-medium text-uppercase text-muted">
-                                                <span><i className="mdi mdi-clock-outline"></i> Just 30 sec ago</span>
-                                            </p>
-                                        </div>
-                                        <div className="px-2 fs-15">
-                                            <div className="form-check notification-check">
-                                                <input className="form-check-input" type="checkbox" value="" id="all-notification-check01" />
-                                                <label className="form-check-label" htmlFor="all-notification-check01"></label>
-                                            </div>
-                                            {/* <input className="form-check-input" type="checkbox" /> */}
-                                        </div>
-                                    </div>
-                                </div>
-
-                                <div className="text-reset notification-item d-block dropdown-item position-relative active">
-                                    <div className="d-flex">
-                                        <img src={avatar2}
-                                            className="me-3 rounded-circle avatar-xs" alt="user-pic" />
-                                        <div className="flex-grow-1">
-                                            <Link to="#" className="stretched-link"><h6 className="mt-0 mb-1 fs-13 fw-semibold">Angela Bernier</h6></Link>
-                                            <div className="fs-13 text-muted">
-                                                <p className="mb-1">Answered to your comment on the cash flow forecast's
-                                                    graph 🔔.</p>
-                                            </div>
-                                            <p className="mb-0 fs-11 fw-medium text-uppercase text-muted">
-                                                <span><i className="mdi mdi-clock-outline"></i> 48 min ago</span>
-                                            </p>
-                                        </div>
-                                        <div className="px-2 fs-15">
-                                            <div className="form-check notification-check">
-                                                <input className="form-check-input" type="checkbox" value="" id="all-notification-check02"/>
-                                                <label className="form-check-label" htmlFor="all-notification-check02"></label>
-                                            </div>
-                                            {/* <input className="form-check-input" type="checkbox" /> */}
-                                        </div>
-                                    </div>
-                                </div>
-
-                                <div className="text-reset notification-item d-block dropdown-item position-relative">
-                                    <div className="d-flex">
-                                        <div className="avatar-xs me-3">
-                                            <span
-                                                className="avatar-title bg-danger-subtle text-danger rounded-circle fs-16">
-                                                <i className='bx bx-message-square-dots'></i>
-                                            </span>
-                                        </div>
-                                        <div className="flex-grow-1">
-                                            <Link to="#" className="stretched-link">
-                                                <h6 className="mt-0 mb-2 fs-13 lh-base">You have received <b className="text-success">20</b> new messages in the conversation</h6>
-                                            </Link>
-                                            <p className="mb-0 fs-11 fw-medium text-uppercase text-muted">
-                                                <span><i className="mdi mdi-clock-outline"></i> 2 hrs ago</span>
-                                            </p>
-                                        </div>
-                                        <div className="px-2 fs-15">
-                                            <div className="form-check notification-check">
-                                                <input className="form-check-input" type="checkbox" value="" id="all-notification-check03" />
-                                                <label className="form-check-label" htmlFor="all-notification-check03"></label>
-                                            </div>
-                                            {/* <input className="form-check-input" type="checkbox" /> */}
-                                        </div>
-                                    </div>
-                                </div>
-
-                                <div className="text-reset notification-item d-block dropdown-item position-relative">
-                                    <div className="d-flex">
-                                        <img src={avatar8} className="me-3 rounded-circle avatar-xs" alt="user-pic" />
-                                        <div className="flex-grow-1">
-                                            <Link to="#" className="stretched-link"><h6 className="mt-0 mb-1 fs-13 fw-semibold">Maureen Gibson</h6></Link>
-                                            <div className="fs-13 text-muted">
-                                                <p className="mb-1">We talked about a project on linkedin.</p>
-                                            </div>
-                                            <p className="mb-0 fs-11 fw-medium text-uppercase text-muted">
-                                                <span><i className="mdi mdi-clock-outline"></i> 4 hrs ago</span>
-                                            </p>
-                                        </div>
-                                        <div className="px-2 fs-15">
-                                            <div className="form-check notification-check">
-                                                <input className="form-check-input" type="checkbox" value="" id="all-notification-check04" />
-                                                <label className="form-check-label" htmlFor="all-notification-check04"></label>
-                                            </div>
-                                            {/* <input className="form-check-input" type="checkbox" /> */}
-                                        </div>
-                                    </div>
-                                </div>
-
-                                <div className="my-3 text-center">
-                                    <button type="button" className="btn btn-soft-success waves-effect waves-light">View
-                                        All Notifications <i className="ri-arrow-right-line align-middle"></i></button>
-                                </div>
-                            </SimpleBar>
-
+                            {renderNotifications(notifications)}
                         </TabPane>
 
                         <TabPane tabId="2" className="py-2 ps-2">
-                            <SimpleBar style={{ maxHeight: "300px" }} className="pe-2">
-                                <div className="text-reset notification-item d-block dropdown-item">
-                                    <div className="d-flex">
-                                        <img src={avatar3}
-                                            className="me-3 rounded-circle avatar-xs" alt="user-pic" />
-                                        <div className="flex-grow-1">
-                                            <Link to="#" className="stretched-link"><h6 className="mt-0 mb-1 fs-13 fw-semibold">James Lemire</h6></Link>
-                                            <div className="fs-13 text-muted">
-                                                <p className="mb-1">We talked about a project on linkedin.</p>
-                                            </div>
-                                            <p className="mb-0 fs-11 fw-medium text-uppercase text-muted">
-                                                <span><i className="mdi mdi-clock-outline"></i> 30 min ago</span>
-                                            </p>
-                                        </div>
-                                        <div className="px-2 fs-15">
-                                        <div className="form-check notification-check">
-                                                    <input className="form-check-input" type="checkbox" value="" id="messages-notification-check01" />
-                                                    <label className="form-check-label" htmlFor="messages-notification-check01"></label>
-                                                </div>
-                                            {/* <input className="form-check-input" type="checkbox" /> */}
-                                        </div>
-                                    </div>
-                                </div>
-
-                                <div className="text-reset notification-item d-block dropdown-item">
-                                    <div className="d-flex">
-                                        <img src={avatar2}
-                                            className="me-3 rounded-circle avatar-xs" alt="user-pic" />
-                                        <div className="flex-grow-1">
-                                            <Link to="#" className="stretched-link"><h6 className="mt-0 mb-1 fs-13 fw-semibold">Angela Bernier</h6></Link>
-                                            <div className="fs-13 text-muted">
-                                                <p className="mb-1">Answered to your comment on the cash flow forecast's
-                                                    graph 🔔.</p>
-                                            </div>
-                                            <p className="mb-0 fs-11 fw-medium text-uppercase text-muted">
-                                                <span><i className="mdi mdi-clock-outline"></i> 2 hrs ago</span>
-                                            </p>
-                                        </div>
-                                        <div className="px-2 fs-15">
-                                        <div className="form-check notification-check">
-                                                    <input className="form-check-input" type="checkbox" value="" id="messages-notification-check02" />
-                                                    <label className="form-check-label" htmlFor="messages-notification-check02"></label>
-                                                </div>
-                                            {/* <input className="form-check-input" type="checkbox" /> */}
-                                        </div>
-                                    </div>
-                                </div>
-
-                                <div className="text-reset notification-item d-block dropdown-item">
-                                    <div className="d-flex">
-                                        <img src={avatar6}
-                                            className="me-3 rounded-circle avatar-xs" alt="user-pic" />
-                                        <div className="flex-grow-1">
-                                            <Link to="#" className="stretched-link"><h6 className="mt-0 mb-1 fs-13 fw-semibold">Kenneth Brown</h6></Link>
-                                            <div className="fs-13 text-muted">
-                                                <p className="mb-1">Mentionned you in his comment on 📃 invoice #12501. </p>
-                                            </div>
-                                            <p className="mb-0 fs-11 fw-medium text-uppercase text-muted">
-                                                <span><i className="mdi mdi-clock-outline"></i> 10 hrs ago</span>
-                                            </p>
-                                        </div>
-                                        <div className="px-2 fs-15">
-                                        <div className="form-check notification-check">
-                                                    <input className="form-check-input" type="checkbox" value="" id="messages-notification-check03" />
-                                                    <label className="form-check-label" htmlFor="messages-notification-check03"></label>
-                                                </div>
-                                            {/* <input className="form-check-input" type="checkbox" /> */}
-                                        </div>
-                                    </div>
-                                </div>
-
-                                <div className="text-reset notification-item d-block dropdown-item">
-                                    <div className="d-flex">
-                                        <img src={avatar8}
-                                            className="me-3 rounded-circle avatar-xs" alt="user-pic" />
-                                        <div className="flex-grow-1">
-                                            <Link to="#" className="stretched-link"><h6 className="mt-0 mb-1 fs-13 fw-semibold">Maureen Gibson</h6></Link>
-                                            <div className="fs-13 text-muted">
-                                                <p className="mb-1">We talked about a project on linkedin.</p>
-                                            </div>
-                                            <p className="mb-0 fs-11 fw-medium text-uppercase text-muted">
-                                                <span><i className="mdi mdi-clock-outline"></i> 3 days ago</span>
-                                            </p>
-                                        </div>
-                                        <div className="px-2 fs-15">
-                                        <div className="form-check notification-check">
-                                                    <input className="form-check-input" type="checkbox" value="" id="messages-notification-check04" />
-                                                    <label className="form-check-label" htmlFor="messages-notification-check04"></label>
-                                                </div>
-                                            {/* <input className="form-check-input" type="checkbox" /> */}
-                                        </div>
-                                    </div>
-                                </div>
-
-                                <div className="my-3 text-center">
-                                    <button type="button" className="btn btn-soft-success waves-effect waves-light">View
-                                        All Messages <i className="ri-arrow-right-line align-middle"></i></button>
-                                </div>
-                            </SimpleBar>
+                            {renderNotifications(expirationNotifications)}
                         </TabPane>
-                        <TabPane tabId="3" className="p-4">
-                            <div className="w-25 w-sm-50 pt-3 mx-auto">
-                                <img src={bell} className="img-fluid" alt="user-pic" />
-                            </div>
-                            <div className="text-center pb-5 mt-2">
-                                <h6 className="fs-18 fw-semibold lh-base">Hey! You have no any notifications </h6>
-                            </div>
+
+                        <TabPane tabId="3" className="py-2 ps-2">
+                            {renderNotifications(reorderNotifications)}
                         </TabPane>
                     </TabContent>
+
+                    <div className="d-flex align-items-center gap-2 p-3 border-top">
+                        <label htmlFor="expirationDaysInput" className="form-label mb-0 fs-12 text-muted">Avisar caducidad con</label>
+                        <Input
+                            type="number"
+                            id="expirationDaysInput"
+                            bsSize="sm"
+                            min={0}
+                            style={{ width: '80px' }}
+                            value={expirationDays}
+                            onChange={(e) => handleExpirationDaysChange(e.target.value)}
+                        />
+                        <span className="fs-12 text-muted">días de anticipación</span>
+                    </div>
                 </DropdownMenu>
             </Dropdown>
         </React.Fragment>
     );
 };
 
-export default NotificationDropdown;
\ No newline at end of file
+export default NotificationDropdown;
@@ -1,18 +1,27 @@
 import { APIClient } from 'helpers/api_helper';
-import { useEffect, useState } from 'react';
-import { Alert, Button, Col, FormFeedback, Input, Label, Modal, ModalBody, ModalFooter, ModalHeader, Row, Spinner } from 'reactstrap';
+import React, { useEffect, useState } from 'react';
+import { Alert, Button, Col, FormFeedback, Input, Label, Modal, ModalBody, ModalFooter, ModalHeader, Row, Spinner, Table } from 'reactstrap';
 import * as Yup from 'yup'
 import Flatpickr from 'react-flatpickr';
 import { useFormik } from 'formik';
 import SubwarehouseForm, { SubwarehouseData } from './SubwarehouseForm';
+import { SupplierData } from './SupplierForm';
+import { IncomeData } from './IncomeForm';
 import { useNavigate } from 'react-router-dom';
 import SelectTable from './SelectTable';
+import { useWarehouse } from 'Components/Hooks/WarehouseHooks';
+import { usePermissions } from 'Components/Hooks/PermissionHooks';
+import { isSubwarehouseOf } from 'helpers/warehouse_helper';
+import { ProductLot } from './ProductForm';
+import { useCategories } from 'Components/Hooks/CategoryHooks';
+import { LotAllocation, allocateFEFO, unallocatedQuantity } from 'helpers/lot_helper';
 
 const axiosHelper = new APIClient();
 const apiUrl = process.env.REACT_APP_API_URL;
 
 interface OutcomeFormProps {
     initialData?: OutcomeData;
+    origin?: SubwarehouseData; // Traspasos desde un subalmacén: cualquier almacén activo puede recibir
     onSubmit: (data: OutcomeData) => Promise<void>
     onCancel: () => void;
 }
@@ -21,6 +30,7 @@ interface Product {
     id: string;
     quantity: number;
     price: number
+    lots?: Array<LotAllocation>;
 }
 
 export interface OutcomeData {
@@ -32,10 +42,45 @@ export interface OutcomeData {
     warehouseDestiny: string;
     warehouseOrigin: string;
     totalPrice: number;
+    relatedIncome?: string;
+    reason?: string;
+    responsible?: string;
+    cancellation?: OutcomeCancellation;
+    transferStatus?: string; // Solo traspasos: in_transit | received
+    reception?: TransferReception;
 }
 
+export interface OutcomeCancellation {
+    user: string;
+    date: string;
+    reason: string;
+}
+
+export interface TransferReceptionLine {
+    id: string;
+    sent: number;
+    received: number; // Unidades aceptadas en el destino
+    shortage: number; // Unidades que no llegaron
+    damaged: number; // Unidades que llegaron dañadas
+    notes: string;
+}
+
+export interface TransferReception {
+    user: string;
+    manager: string; // Responsable del subalmacén de destino
+    date: string;
+    lines: Array<TransferReceptionLine>;
+}
+
+// Los traspasos anteriores a la confirmación de recepción no tienen estado y se consideran recibidos
+export const transferStatusOptions = [
+    { label: "En tránsito", value: "in_transit", color: "warning" },
+    { label: "Recibido", value: "received", color: "success" },
+];
+
 const outcomeTypeOptions = [
     { label: "Traspaso", value: "transfer" },
+    { label: "Devolución a proveedor", value: "supplier_return" },
 ];
 
 const validationSchema = Yup.object({
@@ -53,20 +98,37 @@ const validationSchema = Yup.object({
         }),
     date: Yup.string().required('Por favor, ingrese la fecha'),
     outcomeType: Yup.string().required('Por favor, seleccione el tipo de salida'),
-    warehouseDestiny: Yup.string().required('Pro favor, seleccione un subalmacén')
+    warehouseDestiny: Yup.string().when('outcomeType', {
+        is: 'supplier_return',
+        then: (schema) => schema.notRequired(),
+        otherwise: (schema) => schema.required('Pro favor, seleccione un subalmacén'),
+    }),
+    relatedIncome: Yup.string().when('outcomeType', {
+        is: 'supplier_return',
+        then: (schema) => schema.required('Por favor, seleccione la entrada a devolver'),
+        otherwise: (schema) => schema.notRequired(),
+    }),
 })
 
-const OutcomeForm: React.FC<OutcomeFormProps> = ({ initialData, onSubmit, onCancel }) => {
+const OutcomeForm: React.FC<OutcomeFormProps> = ({ initialData, origin, onSubmit, onCancel }) => {
     const axiosHelper = new APIClient()
     const apiUrl = process.env.REACT_APP_API_URL
     const history = useNavigate()
-    const warehouseId = 'AG001'
+    const { warehouseId } = useWarehouse();
+    const { can } = usePermissions();
+    const originId = origin?.id || warehouseId;
+    const { isLotTrackedCategory } = useCategories();
     const [modals, setModals] = useState({ createWarehouse: false, cancel: false });
     const [alertConfig, setAlertConfig] = useState({ visible: false, color: '', message: '' })
 
     const [subwarehouses, setSubwarehouses] = useState<SubwarehouseData[]>([])
     const [selectedSubwarehouse, setSelectedSubwarehouse] = useState<SubwarehouseData | null>(null)
     const [products, setProducts] = useState([])
+    const [suppliers, setSuppliers] = useState<SupplierData[]>([])
+    const [selectedSupplier, setSelectedSupplier] = useState<SupplierData | null>(null)
+    const [supplierIncomes, setSupplierIncomes] = useState<IncomeData[]>([])
+    const [returnableProducts, setReturnableProducts] = useState([])
+    const [productLots, setProductLots] = useState<Record<string, ProductLot[]>>({})
 
     const showAlert = (color: string, message: string) => {
         setAlertConfig({ visible: true, color: color, message: message })
@@ -90,17 +152,32 @@ const OutcomeForm: React.FC<OutcomeFormProps> = ({ initialData, onSubmit, onCanc
             date: "",
             products: [],
             totalPrice: 0,
-            outcomeType: "",
+            outcomeType: origin ? "transfer" : "",
             status: true,
             warehouseDestiny: "",
-            warehouseOrigin: warehouseId
+            warehouseOrigin: originId,
+            relatedIncome: ""
         },
         enableReinitialize: true,
         validationSchema,
         onSubmit: async (values, { setSubmitting, resetForm }) => {
+            const uncovered = values.products.filter((p: Product) => productLots[p.id] && unallocatedQuantity(productLots[p.id], p.quantity) > 0);
+            if (uncovered.length > 0) {
+                showAlert('danger', `No hay lotes vigentes suficientes de: ${uncovered.map((p: Product) => p.id).join(', ')}`);
+                setSubmitting(false);
+                return;
+            }
+
             try {
                 setSubmitting(true);
-                await onSubmit(values);
+                await onSubmit({
+                    ...values,
+                    // Los traspasos quedan en tránsito hasta que el responsable del destino confirma la recepción
+                    ...(values.outcomeType === 'transfer' ? { transferStatus: 'in_transit' } : {}),
+                    products: values.products.map((p: Product) =>
+                        productLots[p.id] ? { ...p, lots: allocateFEFO(productLots[p.id], p.quantity) } : p
+                    ),
+                });
             } catch (error) {
                 console.error("Error al enviar el formulario:", error);
             } finally {
@@ -115,8 +192,88 @@ const OutcomeForm: React.FC<OutcomeFormProps> = ({ initialData, onSubmit, onCanc
         formik.setFieldValue("warehouseDestiny", subwarehouseId);
     };
 
+    const handleSupplierChange = async (supplierId: string) => {
+        const supplier = suppliers.find((s) => s.id === supplierId) || null;
+        setSelectedSupplier(supplier);
+        setSupplierIncomes([]);
+        setReturnableProducts([]);
+        formik.setFieldValue('relatedIncome', '');
+        formik.setFieldValue('products', []);
+
+        if (!supplierId) return;
+
+        await axiosHelper.get(`${apiUrl}/incomes/find_incomes/origin.id/${supplierId}/true`)
+            .then((response) => {
+                const incomes = response.data.data;
+                setSupplierIncomes(
+                    incomes.filter(function (obj: any) {
+                        return obj.warehouse === warehouseId;
+                    })
+                )
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener las entradas del proveedor, intentelo más tarde')
+            })
+    }
+
+    const handleRelatedIncomeChange = async (incomeId: string) => {
+        formik.setFieldValue('relatedIncome', incomeId);
+        formik.setFieldValue('products', []);
+        setReturnableProducts([]);
+
+        const income = supplierIncomes.find((i) => i.id === incomeId);
+        if (!income) return;
+
+        try {
+            const productsResponse = await axiosHelper.create(`${apiUrl}/product/find_products_by_array`, income.products);
+            const returnsResponse = await axiosHelper.get(`${apiUrl}/outcomes/find_outcomes/relatedIncome/${incomeId}/true`);
+
+            // Cantidades ya devueltas por producto en devoluciones anteriores de esta entrada
+            const returnedQuantities: Record<string, number> = {};
+            returnsResponse.data.data.forEach((outcome: OutcomeData) => {
+                outcome.products.forEach((p) => {
+                    returnedQuantities[p.id] = (returnedQuantities[p.id] || 0) + p.quantity;
+                });
+            });
+
+            setReturnableProducts(
+                productsResponse.data.data
+                    .map((p: any) => ({
+                        ...p,
+                        quantity: p.quantity - (returnedQuantities[p.id] || 0),
+                        averagePrice: p.price,
+                    }))
+                    .filter((p: any) => p.quantity > 0)
+            );
+        } catch (error) {
+            handleError(error, 'Ha ocurrido un error al obtener los productos de la entrada, intentelo más tarde')
+        }
+    }
+
+    const handleFetchProductLots = async (productId: string) => {
+        await axiosHelper.get(`${apiUrl}/product/find_lots/${productId}/${formik.values.warehouseOrigin}`)
+            .then((response) => {
+                setProductLots((prev) => ({ ...prev, [productId]: response.data.data }))
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener los lotes del producto, intentelo más tarde')
+            })
+    }
+
+    const handleFetchSuppliers = async () => {
+        await axiosHelper.get(`${apiUrl}/supplier/find_supplier_status/${true}`)
+            .then((response) => {
+                setSuppliers(response.data.data)
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener a los proveedores, intentelo más tarde')
+            })
+    }
+
     const handleProductSelect = (selectedProducts: Array<{ id: string; quantity: number; price: number }>) => {
         formik.setFieldValue("products", selectedProducts);
+        const total = selectedProducts.reduce((sum, product) => sum + (product.quantity * product.price || 0), 0);
+        formik.setFieldValue("totalPrice", parseFloat(total.toFixed(2)));
     };
 
     const handleFetchsubwarehouses = async () => {
@@ -124,9 +281,11 @@ const OutcomeForm: React.FC<OutcomeFormProps> = ({ initialData, onSubmit, onCanc
             .then((response) => {
                 const warehouses = response.data.data;
 
+                // Desde un subalmacén se puede traspasar a cualquier almacén activo, incluido el almacén general
                 setSubwarehouses(
                     warehouses.filter(function (obj: any) {
-                        return obj.id !== warehouseId && obj.status !== false;
+                        if (origin) return obj.id !== origin.id && obj.status !== false;
+                        return isSubwarehouseOf(obj, warehouseId) && obj.status !== false;
                     })
                 )
             })
@@ -137,7 +296,7 @@ const OutcomeForm: React.FC<OutcomeFormProps> = ({ initialData, onSubmit, onCanc
     }
 
     const handleFetchWarehouseProducts = async () => {
-        await axiosHelper.get(`${apiUrl}/warehouse/get_inventory/${warehouseId}`)
+        await axiosHelper.get(`${apiUrl}/warehouse/get_inventory/${originId}`)
             .then((response) => {
                 const products = response.data.data;
 
@@ -172,9 +331,26 @@ const OutcomeForm: React.FC<OutcomeFormProps> = ({ initialData, onSubmit, onCanc
     }
 
     useEffect(() => {
+        if (!originId) return;
         handleFetchsubwarehouses();
         handleFetchWarehouseProducts();
-    }, [])
+    }, [originId])
+
+    useEffect(() => {
+        if (formik.values.outcomeType === 'supplier_return' && suppliers.length === 0) {
+            handleFetchSuppliers();
+        }
+    }, [formik.values.outcomeType])
+
+    useEffect(() => {
+        if (formik.values.outcomeType !== 'transfer') return;
+        formik.values.products.forEach((p: Product) => {
+            const product: any = products.find((item: any) => item.id === p.id);
+            if (product && isLotTrackedCategory(product.category) && !productLots[p.id]) {
+                handleFetchProductLots(p.id);
+            }
+        });
+    }, [formik.values.products])
 
     useEffect(() => {
         const subwarehouse = subwarehouses.find((s) => s.id === formik.values.warehouseDestiny) || null;
@@ -221,71 +397,146 @@ const OutcomeForm: React.FC<OutcomeFormProps> = ({ initialData, onSubmit, onCanc
                 </div>
 
                 {/* Tipo de salida */}
-                <div className='mt-4'>
-                    <Label htmlFor='outcomeTypeInput' className='form-label'>Motivo de Salida</Label>
-                    <Input
-                        type='select'
-                        id='outcomeTypeInput'
-                        name='outcomeType'
-                        value={formik.values.outcomeType}
-                        onChange={formik.handleChange}
-                        onBlur={formik.handleBlur}
-                        invalid={formik.touched.outcomeType && !!formik.errors.outcomeType}
-                    >
-                        <option value=''>Seleccione un motivo</option>
-                        {outcomeTypeOptions.map((type) => (
-                            <option key={type.value} value={type.value}>
-                                {type.label}
-                            </option>
-                        ))}
-                    </Input>
-                    {formik.touched.outcomeType && formik.errors.outcomeType && <FormFeedback>{formik.errors.outcomeType}</FormFeedback>}
-                </div>
-
-                {/* Datos del subalmacen */}
-                <div className="d-flex mt-4">
-                    <h5 className="me-auto">Datos del Subalmacén</h5>
-                    <Button color="secondary" className="h-50 mb-2" onClick={() => toggleModal('createWarehouse')}>
-                        <i className="ri-add-line me-2"></i>
-                        Nuevo Subalmacén
-                    </Button>
-                </div>
-
-                <div className="border"></div>
-
-                <div className="mt-3">
-                    <Label htmlFor="warehouseDestinyInput" className="form-label">Subalmacén</Label>
-                    <Input
-                        type="select"
-                        id="warehouseDestinyInput"
-                        name="warehouseDestiny"
-                        value={formik.values.warehouseDestiny} // Valor controlado por formik
-                        onChange={(e) => handleSubwarehouseChange(e.target.value)}
-                        onBlur={formik.handleBlur}
-                        invalid={formik.touched.warehouseDestiny && !!formik.errors.warehouseDestiny}
-                    >
-                        <option value=''>Seleccione un subalmacén</option>
-                        {subwarehouses.map((subwarehouse) => (
-                            <option key={subwarehouse.id} value={subwarehouse.id}>
-                                {subwarehouse.name}
-                            </option>
-                        ))}
-                    </Input>
-
-                    {formik.touched.warehouseDestiny && formik.errors.warehouseDestiny && <FormFeedback>{formik.errors.warehouseDestiny}</FormFeedback>}
-                </div>
-
-                <Row className="mt-4">
-                    <Col lg={6}>
-                        <Label htmlFor="warehouseManager" className="form-label">Responsable</Label>
-                        <Input type="text" className="form-control" id="warehouseManager" value={selectedSubwarehouse?.manager} disabled></Input>
-                    </Col>
-
-                    <Col lg={6}>
-                        <Label htmlFor="warehouseLocation" className="form-label">Ubicación</Label>
-                        <Input type="text" className="form-control" id="warehouseLocation" value={selectedSubwarehouse?.location} disabled></Input>
-                    </Col>
-                </Row>
+                {origin ? (
+                    <div className='mt-4'>
+                        <Label htmlFor='originInput' className='form-label'>Origen</Label>
+                        <Input type='text' id='originInput' value={origin.name} disabled />
+                    </div>
+                ) : (
+                    <div className='mt-4'>
+                        <Label htmlFor='outcomeTypeInput' className='form-label'>Motivo de Salida</Label>
+                        <Input
+                            type='select'
+                            id='outcomeTypeInput'
+                            name='outcomeType'
+                            value={formik.values.outcomeType}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                            invalid={formik.touched.outcomeType && !!formik.errors.outcomeType}
+                        >
+                            <option value=''>Seleccione un motivo</option>
+                            {outcomeTypeOptions.map((type) => (
+                                <option key={type.value} value={type.value}>
+                                    {type.label}
+                                </option>
+                            ))}
+                        </Input>
+                        {formik.touched.outcomeType && formik.errors.outcomeType && <FormFeedback>{formik.errors.outcomeType}</FormFeedback>}
+                    </div>
+                )}
+
+                {formik.values.outcomeType === 'supplier_return' ? (
+                    <>
+                        {/* Datos de la devolución */}
+                        <div className="d-flex mt-4">
+                            <h5 className="me-auto">Datos de la Devolución</h5>
+                        </div>
+
+                        <div className="border"></div>
+
+                        <Row className="mt-3">
+                            <Col lg={6}>
+                                <Label htmlFor="supplierInput" className="form-label">Proveedor</Label>
+                                <Input
+                                    type="select"
+                                    id="supplierInput"
+                                    value={selectedSupplier?.id || ''}
+                                    onChange={(e) => handleSupplierChange(e.target.value)}
+                                >
+                                    <option value=''>Seleccione un proveedor</option>
+                                    {suppliers.map((supplier) => (
+                                        <option key={supplier.id} value={supplier.id}>
+                                            {supplier.name}
+                                        </option>
+                                    ))}
+                                </Input>
+                            </Col>
+
+                            <Col lg={6}>
+                                <Label htmlFor="relatedIncomeInput" className="form-label">Entrada a devolver</Label>
+                                <Input
+                                    type="select"
+                                    id="relatedIncomeInput"
+                                    name="relatedIncome"
+                                    value={formik.values.relatedIncome}
+                                    onChange={(e) => handleRelatedIncomeChange(e.target.value)}
+                                    onBlur={formik.handleBlur}
+                                    invalid={formik.touched.relatedIncome && !!formik.errors.relatedIncome}
+                                    disabled={!selectedSupplier}
+                                >
+                                    <option value=''>Seleccione una entrada</option>
+                                    {supplierIncomes.map((income) => (
+                                        <option key={income.id} value={income.id}>
+                                            {`${income.id} - ${income.date}`}
+                                        </option>
+                                    ))}
+                                </Input>
+                                {formik.touched.relatedIncome && formik.errors.relatedIncome && <FormFeedback>{formik.errors.relatedIncome}</FormFeedback>}
+                            </Col>
+                        </Row>
+
+                        <Row className="mt-4">
+                            <Col lg={6}>
+                                <Label htmlFor="supplierRNC" className="form-label">RNC</Label>
+                                <Input type="text" className="form-control" id="supplierRNC" value={selectedSupplier?.rnc} disabled></Input>
+                            </Col>
+
+                            <Col lg={6}>
+                                <Label htmlFor="supplierPhoneNumber" className="form-label">Número Telefonico</Label>
+                                <Input type="text" className="form-control" id="supplierPhoneNumber" value={selectedSupplier?.phone_number} disabled></Input>
+                            </Col>
+                        </Row>
+                    </>
+                ) : (
+                    <>
+                        {/* Datos del subalmacen */}
+                        <div className="d-flex mt-4">
+                            <h5 className="me-auto">{origin ? 'Datos del Destino' : 'Datos del Subalmacén'}</h5>
+                            {!origin && can('subwarehouses.create') && (
+                                <Button color="secondary" className="h-50 mb-2" onClick={() => toggleModal('createWarehouse')}>
+                                    <i className="ri-add-line me-2"></i>
+                                    Nuevo Subalmacén
+                                </Button>
+                            )}
+                        </div>
+
+                        <div className="border"></div>
+
+                        <div className="mt-3">
+                            <Label htmlFor="warehouseDestinyInput" className="form-label">{origin ? 'Almacén' : 'Subalmacén'}</Label>
+                            <Input
+                                type="select"
+                                id="warehouseDestinyInput"
+                                name="warehouseDestiny"
+                                value={formik.values.warehouseDestiny} // Valor controlado por formik
+                                onChange={(e) => handleSubwarehouseChange(e.target.value)}
+                                onBlur={formik.handleBlur}
+                                invalid={formik.touched.warehouseDestiny && !!formik.errors.warehouseDestiny}
+                            >
+                                <option value=''>{origin ? 'Seleccione un almacén' : 'Seleccione un subalmacén'}</option>
+                                {subwarehouses.map((subwarehouse) => (
+                                    <option key={subwarehouse.id} value={subwarehouse.id}>
+                                        {subwarehouse.isSubwarehouse ? subwarehouse.name : `${subwarehouse.name} (Almacén general)`}
+                                    </option>
+                                ))}
+                            </Input>
+
+                            {formik.touched.warehouseDestiny && formik.errors.warehouseDestiny && <FormFeedback>{formik.errors.warehouseDestiny}</FormFeedback>}
+                        </div>
+
+                        <Row className="mt-4">
+                            <Col lg={6}>
+                                <Label htmlFor="warehouseManager" className="form-label">Responsable</Label>
+                                <Input type="text" className="form-control" id="warehouseManager" value={selectedSubwarehouse?.manager} disabled></Input>
+                            </Col>
+
+                            <Col lg={6}>
+                                <Label htmlFor="warehouseLocation" className="form-label">Ubicación</Label>
+                                <Input type="text" className="form-control" id="warehouseLocation" value={selectedSubwarehouse?.location} disabled></Input>
+                            </Col>
+                        </Row>
+                    </>
+                )}
 
                 {/* Productos */}
                 <div className="d-flex mt-5">
@@ -294,16 +545,61 @@ const OutcomeForm: React.FC<OutcomeFormProps> = ({ initialData, onSubmit, onCanc
                 <div className="border"></div>
 
                 <div className="mt-3 border border-0">
-                    <SelectTable data={products} onProductSelect={handleProductSelect} showStock={true}></SelectTable>
+                    <SelectTable
+                        key={formik.values.outcomeType === 'supplier_return' ? formik.values.relatedIncome : 'warehouse'}
+                        data={formik.values.outcomeType === 'supplier_return' ? returnableProducts : products}
+                        onProductSelect={handleProductSelect}
+                        showStock={true}
+                    ></SelectTable>
                 </div>
 
+                {/* Sugerencia de lotes (FEFO) */}
+                {formik.values.outcomeType === 'transfer' && formik.values.products.some((p: Product) => productLots[p.id] && p.quantity > 0) && (
+                    <div className="mt-4">
+                        <h6>Lotes sugeridos (primero en caducar, primero en salir)</h6>
+                        <Table className="table-sm align-middle mb-0" bordered>
+                            <thead className="table-light">
+                                <tr>
+                                    <th>Producto</th>
+                                    <th>Lote</th>
+                                    <th>Caducidad</th>
+                                    <th>Cantidad</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {formik.values.products
+                                    .filter((p: Product) => productLots[p.id] && p.quantity > 0)
+                                    .map((p: Product) => (
+                                        <React.Fragment key={p.id}>
+                                            {allocateFEFO(productLots[p.id], p.quantity).map((allocation) => (
+                                                <tr key={`${p.id}-${allocation.lot}`}>
+                                                    <td>{p.id}</td>
+                                                    <td>{allocation.lot}</td>
+                                                    <td>{allocation.expirationDate}</td>
+                                                    <td>{allocation.quantity}</td>
+                                                </tr>
+                                            ))}
+                                            {unallocatedQuantity(productLots[p.id], p.quantity) > 0 && (
+                                                <tr className="table-danger">
+                                                    <td>{p.id}</td>
+                                                    <td colSpan={2}>Sin lote vigente (los lotes caducados no se asignan)</td>
+                                                    <td>{unallocatedQuantity(productLots[p.id], p.quantity)}</td>
+                                                </tr>
+                                            )}
+                                        </React.Fragment>
+                                    ))}
+                            </tbody>
+                        </Table>
+                    </div>
+                )}
+
                 <div className='d-flex justify-content-end mt-4 gap-2'>
                     <Button color='danger' disabled={formik.isSubmitting} onClick={() => toggleModal('cancel')}>
                         Cancelar
                     </Button>
 
                     <Button color='success' type='submit' disabled={formik.isSubmitting}>
-                        {formik.isSubmitting ? <Spinner /> : "Guardar"}
+                        {formik.isSubmitting ? <Spinner /> : origin ? "Registrar Traspaso" : "Guardar"}
                     </Button>
                 </div>
             </form>
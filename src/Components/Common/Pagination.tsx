@@ -3,6 +3,7 @@ import { Row } from "reactstrap";
 
 interface PaginationProps {
   data: any[];
+  totalItems?: number; // Total de filas cuando la paginación la hace el servidor y data solo trae la página actual
   currentPage: number;
   setCurrentPage: (page: number) => void;
   perPageData: number;
@@ -12,13 +13,14 @@ interface PaginationProps {
 
 const Pagination: React.FC<PaginationProps> = ({
   data,
+  totalItems,
   currentPage,
   setCurrentPage,
   perPageData,
   prevText = "Previous",
   nextText = "Next",
 }) => {
-  const totalPages = Math.ceil(data.length / perPageData);
+  const totalPages = Math.ceil((totalItems ?? data.length) / perPageData);
   const pageNumbers = Array.from({ length: totalPages }, (_, i) => i + 1);
 
   const handlePrevPage = () => {
@@ -34,7 +36,7 @@ const Pagination: React.FC<PaginationProps> = ({
   };
 
   useEffect(() => {
-    if (currentPage > totalPages) {
+    if (totalPages > 0 && currentPage > totalPages) {
       setCurrentPage(totalPages);
     }
   }, [totalPages]);
@@ -4,7 +4,11 @@ import * as Yup from "yup";
 import { useFormik } from "formik";
 import axios, { AxiosHeaders } from "axios";
 import { APIClient } from "helpers/api_helper";
+import { storageService } from "helpers/storage";
+import { invalidateImage } from "helpers/image_cache";
 import FileUploader from "./FileUploader";
+import CachedImage from "./CachedImage";
+import { useCategories } from "Components/Hooks/CategoryHooks";
 import { error } from "console";
 
 const axiosHelper = new APIClient();
@@ -28,12 +32,11 @@ export interface ProductData {
     image: string;
 }
 
-const categories = [
-    { label: "Alimentos", value: "Alimentos" },
-    { label: "Medicamentos", value: "Medicamentos" },
-    { label: "Suministros", value: "Suministros" },
-    { label: "Equipamiento", value: "Equipamiento" },
-];
+export interface ProductLot {
+    lot: string;
+    expirationDate: string;
+    quantity: number;
+}
 
 const unitMeasurements = [
     "Galones",
@@ -52,7 +55,7 @@ const ProductForm: React.FC<ProductFormProps> = ({ initialData, onSubmit, onCanc
     const [cancelModalOpen, setCancelModalOpen] = useState(false);
     const [showErrorAlert, setShowErrorAlert] = useState(false);
     const [fileToUpload, setFileToUpload] = useState<File | null>(null)
-    const [imagePreview, setImagePreview] = useState<string | null>(null);
+    const { categories } = useCategories();
 
     const validationSchema = Yup.object({
         id: Yup.string()
@@ -106,46 +109,21 @@ const ProductForm: React.FC<ProductFormProps> = ({ initialData, onSubmit, onCanc
     });
 
     const fileUpload = async (file: File) => {
-        await axiosHelper.create(`${apiUrl}/google_drive/create_folders`, foldersArray)
-            .then(async (response) => {
-                const folderId = response.data.data;
-
-                await axiosHelper.uploadImage(`${apiUrl}/google_drive/upload_file/${folderId}`, file)
-                    .then((response) => {
-                        const imageId = response.data.data;
-                        formik.values.image = imageId;
-                    })
-                    .catch((error) => {
-                        throw error
-                    })
+        await storageService.upload(file, foldersArray || [])
+            .then((imageId) => {
+                // La imagen anterior deja de usarse, se descarta de la caché local
+                if (initialData?.image && initialData.image !== imageId) {
+                    invalidateImage(initialData.image);
+                }
+                formik.values.image = imageId;
             })
             .catch((error) => {
                 setShowErrorAlert(true);
                 setTimeout(() => setShowErrorAlert(false), 5000)
                 console.log(error)
             })
-
-
     }
 
-    const getImageProduct = async () => {
-        try {
-            const response = await axiosHelper.get(`${apiUrl}/google_drive/download_file/${initialData?.image}`, { responseType: 'blob' });
-
-            const imageUrl = URL.createObjectURL(response.data);
-            setImagePreview(imageUrl);
-            console.log(imageUrl)
-        } catch (error) {
-            console.error('Error al recuperar la imagen: ', error);
-        }
-    }
-
-    useEffect(() => {
-        if (initialData && initialData.image) {
-            getImageProduct();
-        }
-    }, [initialData]);
-
     return (
         <>
             <form
@@ -158,6 +136,11 @@ const ProductForm: React.FC<ProductFormProps> = ({ initialData, onSubmit, onCanc
                 {/* Imagen */}
                 <div className="mt-4">
                     <Label htmlFor="imageInput" className="form-label">Imagen del producto</Label>
+                    {initialData?.image && !fileToUpload && (
+                        <div className="mb-3 text-center">
+                            <CachedImage imageId={initialData.image} variant="full" alt={initialData.name} style={{ maxHeight: "150px" }} />
+                        </div>
+                    )}
                     <FileUploader acceptedFileTypes={['image/*']} maxFiles={1} onFileUpload={(file) => setFileToUpload(file)} />
                 </div>
 
@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from "react";
+import { Alert, Button, Col, FormFeedback, Input, Label, Modal, ModalBody, ModalFooter, ModalHeader, Row, Spinner } from "reactstrap";
+import * as Yup from "yup";
+import { useFormik } from "formik";
+import Flatpickr from 'react-flatpickr';
+import { APIClient } from "helpers/api_helper";
+import { useWarehouse } from "Components/Hooks/WarehouseHooks";
+import SelectTable, { SelectedProduct } from "./SelectTable";
+import { SupplierData } from "./SupplierForm";
+
+const axiosHelper = new APIClient();
+const apiUrl = process.env.REACT_APP_API_URL;
+
+interface PurchaseOrderFormProps {
+    initialData?: PurchaseOrderData;
+    onSubmit: (data: PurchaseOrderData) => Promise<void>;
+    onCancel: () => void;
+}
+
+export interface PurchaseOrderProduct {
+    id: string;
+    quantity: number; // Cantidad ordenada
+    price: number;
+    received: number; // Cantidad recibida mediante entradas
+}
+
+export interface PurchaseOrderData {
+    id: string;
+    warehouse: string;
+    supplier: string;
+    date: string;
+    expectedDate: string;
+    products: Array<PurchaseOrderProduct>;
+    totalPrice: number;
+    notes: string;
+    status: string;
+}
+
+export const purchaseOrderStatusOptions = [
+    { label: "Borrador", value: "draft", color: "secondary" },
+    { label: "Enviada", value: "sent", color: "info" },
+    { label: "Recibida parcialmente", value: "partially_received", color: "warning" },
+    { label: "Recibida", value: "received", color: "success" },
+    { label: "Cancelada", value: "cancelled", color: "danger" },
+];
+
+const validationSchema = (isEditing: boolean) => Yup.object({
+    id: Yup.string()
+        .required("Por favor, ingrese el ID")
+        .test('unique_id', "Este identificador ya existe, por favor ingrese otro", async (value) => {
+            if (isEditing) return true;
+            if (!value) return false;
+            try {
+                const result = await axiosHelper.get(`${apiUrl}/purchase_orders/purchase_order_id_exists/${value}`);
+                return !result.data.data;
+            } catch (error) {
+                console.error(`Error al validar el ID: ${error}`);
+                return false;
+            }
+        }),
+    date: Yup.string().required("Por favor, ingrese la fecha"),
+    expectedDate: Yup.string().required("Por favor, ingrese la fecha estimada de entrega"),
+    supplier: Yup.string().required("Por favor, seleccione un proveedor"),
+    products: Yup.array()
+        .min(1, "Por favor, seleccione al menos un producto")
+        .of(
+            Yup.object({
+                quantity: Yup.number().moreThan(0, "La cantidad debe ser mayor a 0"),
+            })
+        ),
+});
+
+const PurchaseOrderForm: React.FC<PurchaseOrderFormProps> = ({ initialData, onSubmit, onCancel }) => {
+    const { warehouseId } = useWarehouse();
+
+    const [cancelModalOpen, setCancelModalOpen] = useState(false);
+    const [suppliers, setSuppliers] = useState<SupplierData[]>([]);
+    const [products, setProducts] = useState([]);
+    const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
+
+    const handleError = (error: any, message: string) => {
+        console.error(message, error);
+        setAlertConfig({ visible: true, color: "danger", message });
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    };
+
+    const fetchSuppliers = async () => {
+        await axiosHelper.get(`${apiUrl}/supplier/find_supplier_status/${true}`)
+            .then((response) => {
+                setSuppliers(response.data.data);
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener a los proveedores, intentelo más tarde')
+            })
+    };
+
+    const fetchProducts = async () => {
+        await axiosHelper.get(`${apiUrl}/product`)
+            .then((response) => {
+                setProducts(response.data.data)
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener los productos, intentelo más tarde')
+            })
+    }
+
+    const formik = useFormik<PurchaseOrderData>({
+        initialValues: initialData || {
+            id: "",
+            warehouse: warehouseId,
+            supplier: "",
+            date: "",
+            expectedDate: "",
+            products: [],
+            totalPrice: 0,
+            notes: "",
+            status: "draft",
+        },
+        enableReinitialize: true,
+        validationSchema: validationSchema(!!initialData),
+        validateOnChange: false,
+        validateOnBlur: true,
+        onSubmit: async (values, { setSubmitting }) => {
+            try {
+                setSubmitting(true);
+                await onSubmit(values);
+            } catch (error) {
+                console.error("Error al enviar el formulario:", error);
+            } finally {
+                setSubmitting(false);
+            }
+        },
+    });
+
+    const handleProductSelect = (selectedProducts: Array<SelectedProduct>) => {
+        const lines = selectedProducts.map((p) => ({
+            id: p.id,
+            quantity: p.quantity,
+            price: p.price,
+            received: formik.values.products.find((line) => line.id === p.id)?.received || 0,
+        }));
+        formik.setFieldValue("products", lines);
+
+        const total = lines.reduce((sum, line) => sum + (line.quantity * line.price || 0), 0);
+        formik.setFieldValue("totalPrice", parseFloat(total.toFixed(2)));
+    };
+
+    useEffect(() => {
+        fetchSuppliers();
+        fetchProducts();
+    }, [])
+
+    return (
+        <>
+            <form onSubmit={(e) => { e.preventDefault(); formik.handleSubmit(); }}>
+                <Row>
+                    <Col lg={4}>
+                        <Label htmlFor="idInput" className="form-label">Identificador</Label>
+                        <Input
+                            type="text"
+                            id="idInput"
+                            name="id"
+                            value={formik.values.id}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                            invalid={formik.touched.id && !!formik.errors.id}
+                            disabled={!!initialData}
+                        />
+                        {formik.touched.id && formik.errors.id && <FormFeedback>{formik.errors.id}</FormFeedback>}
+                    </Col>
+
+                    <Col lg={4}>
+                        <Label htmlFor="dateInput" className="form-label">Fecha</Label>
+                        <Flatpickr
+                            id="dateInput"
+                            className="form-control"
+                            value={formik.values.date}
+                            options={{
+                                dateFormat: "d-m-Y",
+                                defaultDate: formik.values.date,
+                            }}
+                            onChange={(date) => {
+                                const formattedDate = date[0].toLocaleDateString("es-ES");
+                                formik.setFieldValue("date", formattedDate);
+                            }}
+                        />
+                        {formik.touched.date && formik.errors.date && <FormFeedback className="d-block">{formik.errors.date}</FormFeedback>}
+                    </Col>
+
+                    <Col lg={4}>
+                        <Label htmlFor="expectedDateInput" className="form-label">Fecha estimada de entrega</Label>
+                        <Flatpickr
+                            id="expectedDateInput"
+                            className="form-control"
+                            value={formik.values.expectedDate}
+                            options={{
+                                dateFormat: "d-m-Y",
+                                defaultDate: formik.values.expectedDate,
+                            }}
+                            onChange={(date) => {
+                                const formattedDate = date[0].toLocaleDateString("es-ES");
+                                formik.setFieldValue("expectedDate", formattedDate);
+                            }}
+                        />
+                        {formik.touched.expectedDate && formik.errors.expectedDate && <FormFeedback className="d-block">{formik.errors.expectedDate}</FormFeedback>}
+                    </Col>
+                </Row>
+
+                <div className="mt-4">
+                    <Label htmlFor="supplierInput" className="form-label">Proveedor</Label>
+                    <Input
+                        type="select"
+                        id="supplierInput"
+                        name="supplier"
+                        value={formik.values.supplier}
+                        onChange={formik.handleChange}
+                        onBlur={formik.handleBlur}
+                        invalid={formik.touched.supplier && !!formik.errors.supplier}
+                    >
+                        <option value=''>Seleccione un proveedor</option>
+                        {suppliers.map((supplier) => (
+                            <option key={supplier.id} value={supplier.id}>
+                                {supplier.name}
+                            </option>
+                        ))}
+                    </Input>
+                    {formik.touched.supplier && formik.errors.supplier && <FormFeedback>{formik.errors.supplier}</FormFeedback>}
+                </div>
+
+                {/* Productos */}
+                <div className="d-flex mt-5">
+                    <h5 className="me-auto">Productos</h5>
+                </div>
+                <div className="border"></div>
+
+                <div className="mt-3 border border-0">
+                    <SelectTable
+                        data={products}
+                        onProductSelect={handleProductSelect}
+                        defaultSelected={initialData?.products.map(({ id, quantity, price }) => ({ id, quantity, price }))}
+                    />
+                    {formik.errors.products && (
+                        <FormFeedback className="d-block">
+                            {typeof formik.errors.products === 'string' ? formik.errors.products : 'Por favor, ingrese la cantidad de todos los productos seleccionados'}
+                        </FormFeedback>
+                    )}
+                </div>
+
+                <Row className="mt-4">
+                    <Col lg={4}>
+                        <Label htmlFor="totalPriceInput" className="form-label">Precio Total</Label>
+                        <div className="form-icon">
+                            <Input
+                                className="form-control form-control-icon"
+                                type="number"
+                                id="totalPriceInput"
+                                name="totalPrice"
+                                value={formik.values.totalPrice}
+                                disabled={true}
+                            />
+                            <i>$</i>
+                        </div>
+                    </Col>
+
+                    <Col lg={8}>
+                        <Label htmlFor="notesInput" className="form-label">Notas</Label>
+                        <Input
+                            type="textarea"
+                            id="notesInput"
+                            name="notes"
+                            rows={2}
+                            value={formik.values.notes}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                        />
+                    </Col>
+                </Row>
+
+                <div className="d-flex justify-content-end mt-4 gap-2">
+                    <Button color="danger" onClick={() => setCancelModalOpen(true)} disabled={formik.isSubmitting}>
+                        Cancelar
+                    </Button>
+                    <Button color="success" type="submit" disabled={formik.isSubmitting}>
+                        {formik.isSubmitting ? <Spinner size="sm" /> : initialData ? "Actualizar Orden" : "Guardar Orden"}
+                    </Button>
+                </div>
+            </form>
+
+            <Modal isOpen={cancelModalOpen} centered toggle={() => setCancelModalOpen(!cancelModalOpen)}>
+                <ModalHeader>Confirmación</ModalHeader>
+                <ModalBody>¿Estás seguro de que deseas cancelar? Los datos no se guardarán.</ModalBody>
+                <ModalFooter>
+                    <Button color="danger" onClick={onCancel}>Sí, cancelar</Button>
+                    <Button color="success" onClick={() => setCancelModalOpen(false)}>No, continuar</Button>
+                </ModalFooter>
+            </Modal>
+
+            {alertConfig.visible && (
+                <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
+                    {alertConfig.message}
+                </Alert>
+            )}
+        </>
+    );
+};
+
+export default PurchaseOrderForm;
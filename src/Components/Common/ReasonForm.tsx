@@ -0,0 +1,64 @@
+import React from "react";
+import { Button, FormFeedback, Input, Label, Spinner } from "reactstrap";
+import * as Yup from "yup";
+import { useFormik } from "formik";
+
+interface ReasonFormProps {
+    label: string;
+    submitLabel: string;
+    onSubmit: (reason: string) => Promise<void>;
+    onCancel: () => void;
+    disabled?: boolean; // Impide confirmar, p. ej. cuando la operación está bloqueada
+}
+
+const validationSchema = Yup.object({
+    reason: Yup.string().trim().required("Por favor, ingrese el motivo"),
+});
+
+const ReasonForm: React.FC<ReasonFormProps> = ({ label, submitLabel, onSubmit, onCancel, disabled = false }) => {
+    const formik = useFormik({
+        initialValues: { reason: "" },
+        validationSchema,
+        validateOnChange: false,
+        validateOnBlur: true,
+        onSubmit: async (values, { setSubmitting }) => {
+            try {
+                setSubmitting(true);
+                await onSubmit(values.reason.trim());
+            } catch (error) {
+                console.error("Error al enviar el formulario:", error);
+            } finally {
+                setSubmitting(false);
+            }
+        },
+    });
+
+    return (
+        <form onSubmit={(e) => { e.preventDefault(); formik.handleSubmit(); }}>
+            <Label htmlFor="reasonInput" className="form-label">{label}</Label>
+            <Input
+                type="textarea"
+                id="reasonInput"
+                name="reason"
+                rows={3}
+                value={formik.values.reason}
+                onChange={formik.handleChange}
+                onBlur={formik.handleBlur}
+                invalid={formik.touched.reason && !!formik.errors.reason}
+                disabled={disabled}
+            />
+            {formik.touched.reason && formik.errors.reason && <FormFeedback>{formik.errors.reason}</FormFeedback>}
+
+            <div className="d-flex justify-content-end mt-4 gap-2">
+                <Button color="danger" onClick={onCancel} disabled={formik.isSubmitting}>
+                    Cancelar
+                </Button>
+                <Button color="success" type="submit" disabled={disabled || formik.isSubmitting}>
+                    {formik.isSubmitting ? <Spinner size="sm" /> : submitLabel}
+                </Button>
+            </div>
+        </form>
+    );
+};
+
+export default ReasonForm;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Button, Col, FormFeedback, Input, Label, Modal, ModalBody, ModalFooter, ModalHeader, Row, Spinner } from 'reactstrap';
+import * as Yup from 'yup';
+import { useFormik } from 'formik';
+
+interface ReorderSettingsFormProps {
+    initialData: ReorderSettingsData;
+    onSubmit: (data: ReorderSettingsData) => Promise<void>;
+    onCancel: () => void;
+}
+
+// Configuración de reabastecimiento de un producto en un almacén específico
+export interface ReorderSettingsData {
+    product: string;
+    warehouse: string;
+    minStock: number;
+    maxStock: number;
+    reorderQuantity: number;
+}
+
+const validationSchema = Yup.object({
+    minStock: Yup.number()
+        .required('Por favor, ingrese el stock mínimo')
+        .min(0, 'El stock mínimo no puede ser negativo'),
+    maxStock: Yup.number()
+        .required('Por favor, ingrese el stock máximo')
+        .min(Yup.ref('minStock'), 'El stock máximo debe ser mayor o igual al mínimo'),
+    reorderQuantity: Yup.number()
+        .required('Por favor, ingrese la cantidad de reorden')
+        .min(0, 'La cantidad de reorden no puede ser negativa'),
+})
+
+const ReorderSettingsForm: React.FC<ReorderSettingsFormProps> = ({ initialData, onSubmit, onCancel }) => {
+    const [cancelModalOpen, setCancelModalOpen] = useState(false);
+
+    const formik = useFormik({
+        initialValues: initialData,
+        enableReinitialize: true,
+        validationSchema,
+        onSubmit: async (values, { setSubmitting }) => {
+            try {
+                setSubmitting(true);
+                await onSubmit(values);
+            } catch (error) {
+                console.error("Error al enviar el formulario:", error);
+            } finally {
+                setSubmitting(false);
+            }
+        },
+    });
+
+    return (
+        <>
+            <form onSubmit={(e) => { e.preventDefault(); formik.handleSubmit(); }}>
+                <Row>
+                    <Col lg={4}>
+                        <Label htmlFor="minStockInput" className="form-label">Stock Mínimo</Label>
+                        <Input
+                            type="number"
+                            id="minStockInput"
+                            name="minStock"
+                            value={formik.values.minStock}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                            invalid={formik.touched.minStock && !!formik.errors.minStock}
+                        />
+                        {formik.touched.minStock && formik.errors.minStock && <FormFeedback>{formik.errors.minStock}</FormFeedback>}
+                    </Col>
+
+                    <Col lg={4}>
+                        <Label htmlFor="maxStockInput" className="form-label">Stock Máximo</Label>
+                        <Input
+                            type="number"
+                            id="maxStockInput"
+                            name="maxStock"
+                            value={formik.values.maxStock}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                            invalid={formik.touched.maxStock && !!formik.errors.maxStock}
+                        />
+                        {formik.touched.maxStock && formik.errors.maxStock && <FormFeedback>{formik.errors.maxStock}</FormFeedback>}
+                    </Col>
+
+                    <Col lg={4}>
+                        <Label htmlFor="reorderQuantityInput" className="form-label">Cantidad de Reorden</Label>
+                        <Input
+                            type="number"
+                            id="reorderQuantityInput"
+                            name="reorderQuantity"
+                            value={formik.values.reorderQuantity}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                            invalid={formik.touched.reorderQuantity && !!formik.errors.reorderQuantity}
+                        />
+                        {formik.touched.reorderQuantity && formik.errors.reorderQuantity && <FormFeedback>{formik.errors.reorderQuantity}</FormFeedback>}
+                    </Col>
+                </Row>
+
+                <div className="d-flex justify-content-end mt-4 gap-2">
+                    <Button color="danger" disabled={formik.isSubmitting} onClick={() => setCancelModalOpen(true)}>
+                        Cancelar
+                    </Button>
+                    <Button color="success" type="submit" disabled={formik.isSubmitting}>
+                        {formik.isSubmitting ? <Spinner size="sm" /> : "Guardar"}
+                    </Button>
+                </div>
+            </form>
+
+            <Modal isOpen={cancelModalOpen} centered toggle={() => setCancelModalOpen(false)}>
+                <ModalHeader>Confirmación</ModalHeader>
+                <ModalBody>¿Estás seguro de que deseas cancelar? Los datos no se guardarán.</ModalBody>
+                <ModalFooter>
+                    <Button color="danger" onClick={onCancel}>Sí, cancelar</Button>
+                    <Button color="success" onClick={() => setCancelModalOpen(false)}>No, continuar</Button>
+                </ModalFooter>
+            </Modal>
+        </>
+    );
+};
+
+export default ReorderSettingsForm;
@@ -1,26 +1,38 @@
 import React, { useEffect, useState, useCallback } from "react";
 import { Input, Table } from "reactstrap";
 import Pagination from "./Pagination";
+import Flatpickr from "react-flatpickr";
 import { ProductData } from "./ProductForm";
+import { useCategories } from "Components/Hooks/CategoryHooks";
+import { taxRateOptions } from "helpers/tax_helper";
+
+export interface SelectedProduct {
+  id: string;
+  quantity: number;
+  price: number;
+  lot?: string;
+  expirationDate?: string;
+  taxRate?: number;
+}
 
 interface SelectTableProps {
   data: any[];
-  onProductSelect: (
-    selectedProducts: Array<{ id: string; quantity: number; price: number }>
-  ) => void;
+  onProductSelect: (selectedProducts: Array<SelectedProduct>) => void;
   showStock?: boolean; // Nuevo prop opcional
+  showLots?: boolean; // Captura lote y caducidad de los productos controlados por lote
+  defaultSelected?: Array<SelectedProduct>; // Productos preseleccionados (p. ej. líneas de una orden de compra)
+  showTax?: boolean; // Permite modificar la tasa de ITBIS de cada línea
 }
 
-const SelectTable: React.FC<SelectTableProps> = ({ data, onProductSelect, showStock = false }) => {
-  const [selectedProducts, setSelectedProducts] = useState<
-    Array<{ id: string; quantity: number; price: number }>
-  >([]);
+const SelectTable: React.FC<SelectTableProps> = ({ data, onProductSelect, showStock = false, showLots = false, defaultSelected = [], showTax = false }) => {
+  const [selectedProducts, setSelectedProducts] = useState<Array<SelectedProduct>>(defaultSelected);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [filterText, setFilterText] = useState<string>("");
   const rowsPerPage = 5;
+  const { isLotTrackedCategory, getCategoryTaxRate } = useCategories();
 
   const handleInputChange = useCallback(
-    (id: string, field: "quantity" | "price", value: number) => {
+    (id: string, field: "quantity" | "price" | "lot" | "expirationDate" | "taxRate", value: any) => {
       const product = data.find((p) => p.id === id);
       const maxQuantity = product?.quantity ?? Infinity; // Si no hay stock definido, no se limita
 
@@ -29,9 +41,11 @@ const SelectTable: React.FC<SelectTableProps> = ({ data, onProductSelect, showSt
           ? {
             ...p,
             [field]:
-              field === "quantity" && showStock
-                ? Math.min(isNaN(value) ? 0 : value, maxQuantity) // Limitar la cantidad al stock disponible
-                : isNaN(value) ? 0 : value,
+              field === "lot" || field === "expirationDate" || field === "taxRate"
+                ? value
+                : field === "quantity" && showStock
+                  ? Math.min(isNaN(value) ? 0 : value, maxQuantity) // Limitar la cantidad al stock disponible
+                  : isNaN(value) ? 0 : value,
           }
           : p
       );
@@ -47,12 +61,15 @@ const SelectTable: React.FC<SelectTableProps> = ({ data, onProductSelect, showSt
         const product = data.find((p) => p.id === id)
         setSelectedProducts((prev) => [...prev, { id, quantity: 0, price: parseFloat(product.averagePrice.toFixed(2)) }]);
       } else {
-        setSelectedProducts((prev) => [...prev, { id, quantity: 0, price: 0 }]);
+        const product = data.find((p) => p.id === id)
+        const lotFields = showLots && isLotTrackedCategory(product?.category) ? { lot: "", expirationDate: "" } : {};
+        const taxFields = showTax ? { taxRate: getCategoryTaxRate(product?.category) } : {};
+        setSelectedProducts((prev) => [...prev, { id, quantity: 0, price: 0, ...lotFields, ...taxFields }]);
       }
     } else {
       setSelectedProducts((prev) => prev.filter((product) => product.id !== id));
     }
-  }, [data, showStock]);
+  }, [data, showStock, showLots, showTax, isLotTrackedCategory, getCategoryTaxRate]);
 
   const handleRowClick = useCallback((id: string) => {
     const isSelected = selectedProducts.some((product) => product.id === id);
@@ -103,6 +120,9 @@ const SelectTable: React.FC<SelectTableProps> = ({ data, onProductSelect, showSt
             <th>Cantidad</th>
             <th>Unidad de medida</th>
             {showStock ? <th>Precio Promedio</th> : <th>Precio Unitario</th>} {/* Cambiar el encabezado */}
+            {showLots && <th>Lote</th>}
+            {showLots && <th>Caducidad</th>}
+            {showTax && <th>ITBIS</th>}
           </tr>
         </thead>
         <tbody>
@@ -159,12 +179,58 @@ const SelectTable: React.FC<SelectTableProps> = ({ data, onProductSelect, showSt
                       />
                     </td>
                   )}
+                  {showLots && (
+                    isLotTrackedCategory(product.category) ? (
+                      <>
+                        <td>
+                          <Input
+                            type="text"
+                            value={selectedProducts.find((p) => p.id === product.id)?.lot || ""}
+                            onChange={(e) => handleInputChange(product.id, "lot", e.target.value)}
+                            disabled={!isSelected}
+                            onClick={(e) => e.stopPropagation()}
+                          />
+                        </td>
+                        <td onClick={(e) => e.stopPropagation()}>
+                          <Flatpickr
+                            className="form-control"
+                            value={selectedProducts.find((p) => p.id === product.id)?.expirationDate || ""}
+                            options={{ dateFormat: "d-m-Y" }}
+                            onChange={(date) => handleInputChange(product.id, "expirationDate", date[0]?.toLocaleDateString("es-ES") || "")}
+                            disabled={!isSelected}
+                          />
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td>-</td>
+                        <td>-</td>
+                      </>
+                    )
+                  )}
+                  {showTax && (
+                    <td style={{ minWidth: "130px" }}>
+                      <Input
+                        type="select"
+                        value={selectedProducts.find((p) => p.id === product.id)?.taxRate ?? getCategoryTaxRate(product.category)}
+                        onChange={(e) => handleInputChange(product.id, "taxRate", parseFloat(e.target.value))}
+                        disabled={!isSelected}
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        {taxRateOptions.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </Input>
+                    </td>
+                  )}
                 </tr>
               );
             })
           ) : (
             <tr>
-              <td colSpan={showStock ? 8: 7} className="text-center">
+              <td colSpan={(showStock ? 8 : 7) + (showLots ? 2 : 0) + (showTax ? 1 : 0)} className="text-center">
                 No hay productos disponibles.
               </td>
             </tr>
@@ -2,6 +2,7 @@ import { useFormik } from 'formik';
 import { useState } from 'react';
 import { Button, FormFeedback, Input, Label, Modal, ModalBody, ModalFooter, ModalHeader, Spinner } from 'reactstrap';
 import * as Yup from 'yup';
+import { useWarehouse } from 'Components/Hooks/WarehouseHooks';
 
 interface SubwarehouseFormProps {
     initialData?: SubwarehouseData;
@@ -30,6 +31,7 @@ export interface SubwarehouseData {
     incomes: string[]
     outcomes: string[]
     isSubwarehouse: boolean
+    parentWarehouse: string
 }
 
 const validationSchema = Yup.object({
@@ -42,6 +44,7 @@ const validationSchema = Yup.object({
 const SubwarehouseForm: React.FC<SubwarehouseFormProps> = ({ initialData, onSubmit, onCancel, isCodeDisabled }) => {
     const [cancelModalOpen, setCancelModalOpen] = useState(false);
     const [showErrorAlert, setShowErrorAlert] = useState(false);
+    const { warehouseId } = useWarehouse();
 
     const formik = useFormik({
         initialValues: initialData || {
@@ -53,7 +56,8 @@ const SubwarehouseForm: React.FC<SubwarehouseFormProps> = ({ initialData, onSubm
             products: [],
             incomes: [],
             outcomes: [],
-            isSubwarehouse: true
+            isSubwarehouse: true,
+            parentWarehouse: warehouseId
         },
         enableReinitialize: true,
         validationSchema,
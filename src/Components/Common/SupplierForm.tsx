@@ -23,6 +23,7 @@ export interface SupplierData {
   supplier_type: string;
   status: boolean;
   rnc: string;
+  taxRegistered?: boolean; // Contribuyente de ITBIS; los proveedores registrados antes de este dato se consideran contribuyentes
 }
 
 const supplierTypes = [
@@ -69,6 +70,7 @@ const SupplierForm: React.FC<SupplierFormProps> = ({ initialData, onSubmit, onCa
       supplier_type: "",
       status: true,
       rnc: "",
+      taxRegistered: true,
     },
     enableReinitialize: true,
     validationSchema,
@@ -221,6 +223,19 @@ const SupplierForm: React.FC<SupplierFormProps> = ({ initialData, onSubmit, onCa
           {formik.touched.rnc && formik.errors.rnc && <FormFeedback>{formik.errors.rnc}</FormFeedback>}
         </div>
 
+        {/* Contribuyente de ITBIS */}
+        <div className="mt-3 form-check form-switch">
+          <Input
+            type="checkbox"
+            id="taxRegisteredInput"
+            className="form-check-input"
+            name="taxRegistered"
+            checked={formik.values.taxRegistered !== false}
+            onChange={(e) => formik.setFieldValue("taxRegistered", e.target.checked)}
+          />
+          <Label htmlFor="taxRegisteredInput" className="form-check-label">Contribuyente de ITBIS</Label>
+        </div>
+
         {/* Botones */}
         <div className="d-flex justify-content-end mt-4 gap-2">
           <Button color="danger" onClick={() => setCancelModalOpen(true)} disabled={formik.isSubmitting}>
@@ -0,0 +1,244 @@
+import React, { useState } from "react";
+import { Button, Col, FormFeedback, Input, Label, Modal, ModalBody, ModalFooter, ModalHeader, Row, Spinner, Table } from "reactstrap";
+import * as Yup from "yup";
+import { useFormik } from "formik";
+import Flatpickr from 'react-flatpickr';
+import { APIClient } from "helpers/api_helper";
+
+const axiosHelper = new APIClient();
+const apiUrl = process.env.REACT_APP_API_URL;
+
+interface SupplierPaymentFormProps {
+    supplierId: string;
+    outstandingIncomes: Array<any>; // Entradas con saldo pendiente (balance, dueDate)
+    onSubmit: (data: SupplierPaymentData) => Promise<void>;
+    onCancel: () => void;
+}
+
+interface PaymentApplication {
+    income: string;
+    amount: number;
+}
+
+export interface SupplierPaymentData {
+    id: string;
+    supplier: string;
+    date: string;
+    method: string;
+    reference: string;
+    amount: number;
+    applications: Array<PaymentApplication>;
+    status: boolean;
+}
+
+export const paymentMethodOptions = [
+    { label: "Efectivo", value: "cash" },
+    { label: "Transferencia", value: "transfer" },
+    { label: "Cheque", value: "check" },
+];
+
+const validationSchema = Yup.object({
+    id: Yup.string()
+        .required("Por favor, ingrese el ID")
+        .test('unique_id', "Este identificador ya existe, por favor ingrese otro", async (value) => {
+            if (!value) return false;
+            try {
+                const result = await axiosHelper.get(`${apiUrl}/supplier_payments/supplier_payment_id_exists/${value}`);
+                return !result.data.data;
+            } catch (error) {
+                console.error(`Error al validar el ID: ${error}`);
+                return false;
+            }
+        }),
+    date: Yup.string().required("Por favor, ingrese la fecha"),
+    method: Yup.string().required("Por favor, seleccione el método de pago"),
+    amount: Yup.number().moreThan(0, "Por favor, aplique el pago al menos a una entrada"),
+});
+
+const SupplierPaymentForm: React.FC<SupplierPaymentFormProps> = ({ supplierId, outstandingIncomes, onSubmit, onCancel }) => {
+    const [cancelModalOpen, setCancelModalOpen] = useState(false);
+
+    const formik = useFormik<SupplierPaymentData>({
+        initialValues: {
+            id: "",
+            supplier: supplierId,
+            date: "",
+            method: "",
+            reference: "",
+            amount: 0,
+            applications: [],
+            status: true,
+        },
+        validationSchema,
+        validateOnChange: false,
+        validateOnBlur: true,
+        onSubmit: async (values, { setSubmitting }) => {
+            try {
+                setSubmitting(true);
+                await onSubmit({ ...values, applications: values.applications.filter((a) => a.amount > 0) });
+            } catch (error) {
+                console.error("Error al enviar el formulario:", error);
+            } finally {
+                setSubmitting(false);
+            }
+        },
+    });
+
+    // El monto aplicado a cada entrada no puede superar su saldo pendiente
+    const handleApplicationChange = (income: any, value: string) => {
+        const amount = Math.min(Math.max(parseFloat(value) || 0, 0), income.balance);
+        const applications = [
+            ...formik.values.applications.filter((a) => a.income !== income.id),
+            { income: income.id, amount },
+        ];
+        formik.setFieldValue("applications", applications);
+
+        const total = applications.reduce((sum, a) => sum + a.amount, 0);
+        formik.setFieldValue("amount", parseFloat(total.toFixed(2)));
+    }
+
+    return (
+        <>
+            <form onSubmit={(e) => { e.preventDefault(); formik.handleSubmit(); }}>
+                <Row>
+                    <Col lg={6}>
+                        <Label htmlFor="idInput" className="form-label">Identificador</Label>
+                        <Input
+                            type="text"
+                            id="idInput"
+                            name="id"
+                            value={formik.values.id}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                            invalid={formik.touched.id && !!formik.errors.id}
+                        />
+                        {formik.touched.id && formik.errors.id && <FormFeedback>{formik.errors.id}</FormFeedback>}
+                    </Col>
+
+                    <Col lg={6}>
+                        <Label htmlFor="dateInput" className="form-label">Fecha</Label>
+                        <Flatpickr
+                            id="dateInput"
+                            className="form-control"
+                            value={formik.values.date}
+                            options={{
+                                dateFormat: "d-m-Y",
+                                defaultDate: formik.values.date,
+                            }}
+                            onChange={(date) => {
+                                const formattedDate = date[0].toLocaleDateString("es-ES");
+                                formik.setFieldValue("date", formattedDate);
+                            }}
+                        />
+                        {formik.touched.date && formik.errors.date && <FormFeedback className="d-block">{formik.errors.date}</FormFeedback>}
+                    </Col>
+                </Row>
+
+                <Row className="mt-4">
+                    <Col lg={6}>
+                        <Label htmlFor="methodInput" className="form-label">Método de Pago</Label>
+                        <Input
+                            type="select"
+                            id="methodInput"
+                            name="method"
+                            value={formik.values.method}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                            invalid={formik.touched.method && !!formik.errors.method}
+                        >
+                            <option value="">Seleccione un método</option>
+                            {paymentMethodOptions.map((method) => (
+                                <option key={method.value} value={method.value}>
+                                    {method.label}
+                                </option>
+                            ))}
+                        </Input>
+                        {formik.touched.method && formik.errors.method && <FormFeedback>{formik.errors.method}</FormFeedback>}
+                    </Col>
+
+                    <Col lg={6}>
+                        <Label htmlFor="referenceInput" className="form-label">Referencia</Label>
+                        <Input
+                            type="text"
+                            id="referenceInput"
+                            name="reference"
+                            placeholder="Número de cheque o transferencia"
+                            value={formik.values.reference}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                        />
+                    </Col>
+                </Row>
+
+                <div className="d-flex mt-5">
+                    <h5 className="me-auto">Aplicar a entradas</h5>
+                </div>
+                <div className="border"></div>
+
+                <div className="table-responsive mt-3">
+                    <Table className="align-middle table-nowrap mb-0" striped>
+                        <thead className="table-light">
+                            <tr>
+                                <th>Entrada</th>
+                                <th>Fecha</th>
+                                <th>Vencimiento</th>
+                                <th>Saldo Pendiente</th>
+                                <th>Monto a Aplicar</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {outstandingIncomes.length > 0 ? (
+                                outstandingIncomes.map((income) => (
+                                    <tr key={income.id}>
+                                        <td>{income.id}</td>
+                                        <td>{income.date}</td>
+                                        <td>{income.dueDate}</td>
+                                        <td>${income.balance.toFixed(2)}</td>
+                                        <td style={{ maxWidth: '150px' }}>
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                max={income.balance}
+                                                value={formik.values.applications.find((a) => a.income === income.id)?.amount || ""}
+                                                onChange={(e) => handleApplicationChange(income, e.target.value)}
+                                            />
+                                        </td>
+                                    </tr>
+                                ))
+                            ) : (
+                                <tr>
+                                    <td colSpan={5} className="text-center">No hay entradas con saldo pendiente</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </Table>
+                </div>
+
+                <div className="d-flex justify-content-end mt-3">
+                    <h5>Total del pago: ${formik.values.amount.toFixed(2)}</h5>
+                </div>
+                {formik.errors.amount && <FormFeedback className="d-block text-end">{formik.errors.amount}</FormFeedback>}
+
+                <div className="d-flex justify-content-end mt-4 gap-2">
+                    <Button color="danger" onClick={() => setCancelModalOpen(true)} disabled={formik.isSubmitting}>
+                        Cancelar
+                    </Button>
+                    <Button color="success" type="submit" disabled={formik.isSubmitting}>
+                        {formik.isSubmitting ? <Spinner size="sm" /> : "Registrar Pago"}
+                    </Button>
+                </div>
+            </form>
+
+            <Modal isOpen={cancelModalOpen} centered toggle={() => setCancelModalOpen(!cancelModalOpen)}>
+                <ModalHeader>Confirmación</ModalHeader>
+                <ModalBody>¿Estás seguro de que deseas cancelar? Los datos no se guardarán.</ModalBody>
+                <ModalFooter>
+                    <Button color="danger" onClick={onCancel}>Sí, cancelar</Button>
+                    <Button color="success" onClick={() => setCancelModalOpen(false)}>No, continuar</Button>
+                </ModalFooter>
+            </Modal>
+        </>
+    );
+};
+
+export default SupplierPaymentForm;
@@ -1,4 +1,4 @@
-import React, { useEffect } from "react";
+import React, { useEffect, useRef } from "react";
 import { Input } from "reactstrap";
 
 type Column<T> = {
@@ -34,9 +34,13 @@ const TableFilter = <T,>({
 
 
     // Limpiar el filtro de texto si cambiamos de un filtro con opciones a uno de texto
+    const previousFilter = useRef<keyof T | "">(selectedFilter);
     useEffect(() => {
+        const previousColumn = columns.find((col) => col.accessor === previousFilter.current);
         const selectedColumn = columns.find((col) => col.accessor === selectedFilter);
+        previousFilter.current = selectedFilter;
         if (
+            previousColumn?.options &&
             selectedColumn &&
             !selectedColumn.options &&
             filterText !== ""
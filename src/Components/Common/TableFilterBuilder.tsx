@@ -0,0 +1,138 @@
+import React from "react";
+import { Button, Col, Input, Label, Row } from "reactstrap";
+import Flatpickr from "react-flatpickr";
+import { FilterCondition, FilterType } from "helpers/table_helper";
+
+type FilterableColumn = {
+    header: string;
+    accessor: string;
+    filterType?: FilterType;
+    options?: { label: string; value: any }[];
+};
+
+interface TableFilterBuilderProps {
+    columns: FilterableColumn[];
+    conditions: FilterCondition[];
+    onChange: (conditions: FilterCondition[]) => void;
+}
+
+// Una columna admite condiciones si declara su tipo de filtro o tiene opciones
+export const isConditionColumn = (column: Pick<FilterableColumn, "filterType" | "options">) => !!column.filterType || !!column.options;
+
+const columnFilterType = (column: FilterableColumn): FilterType => column.filterType ?? "options";
+
+const TableFilterBuilder: React.FC<TableFilterBuilderProps> = ({ columns, conditions, onChange }) => {
+    const conditionColumns = columns.filter(isConditionColumn);
+
+    const newCondition = (column: FilterableColumn): FilterCondition => ({
+        field: column.accessor,
+        type: columnFilterType(column),
+        ...(columnFilterType(column) === "options" ? { values: [] } : { from: "", to: "" }),
+    });
+
+    const handleAdd = () => {
+        const column = conditionColumns.find((col) => !conditions.some((c) => c.field === col.accessor)) || conditionColumns[0];
+        onChange([...conditions, newCondition(column)]);
+    };
+
+    const handleUpdate = (index: number, changes: Partial<FilterCondition>) => {
+        onChange(conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition)));
+    };
+
+    const handleFieldChange = (index: number, field: string) => {
+        const column = conditionColumns.find((col) => col.accessor === field);
+        if (column) onChange(conditions.map((condition, i) => (i === index ? newCondition(column) : condition)));
+    };
+
+    const handleToggleValue = (index: number, value: string) => {
+        const values = conditions[index].values || [];
+        handleUpdate(index, { values: values.includes(value) ? values.filter((v) => v !== value) : [...values, value] });
+    };
+
+    const renderConditionInputs = (condition: FilterCondition, index: number) => {
+        const column = conditionColumns.find((col) => col.accessor === condition.field);
+
+        if (condition.type === "options") {
+            return (
+                <div className="d-flex flex-wrap gap-3 pt-2">
+                    {column?.options?.map((option) => (
+                        <div className="form-check" key={String(option.value)}>
+                            <Input
+                                type="checkbox"
+                                className="form-check-input"
+                                id={`condition-${index}-${option.value}`}
+                                checked={condition.values?.includes(String(option.value)) || false}
+                                onChange={() => handleToggleValue(index, String(option.value))}
+                            />
+                            <Label className="form-check-label" htmlFor={`condition-${index}-${option.value}`}>{option.label}</Label>
+                        </div>
+                    ))}
+                </div>
+            );
+        }
+
+        if (condition.type === "date") {
+            return (
+                <div className="d-flex gap-2">
+                    <Flatpickr
+                        className="form-control"
+                        placeholder="Desde"
+                        value={condition.from}
+                        options={{ dateFormat: "d-m-Y" }}
+                        onChange={(date) => handleUpdate(index, { from: date[0] ? date[0].toLocaleDateString("es-ES") : "" })}
+                    />
+                    <Flatpickr
+                        className="form-control"
+                        placeholder="Hasta"
+                        value={condition.to}
+                        options={{ dateFormat: "d-m-Y" }}
+                        onChange={(date) => handleUpdate(index, { to: date[0] ? date[0].toLocaleDateString("es-ES") : "" })}
+                    />
+                </div>
+            );
+        }
+
+        return (
+            <div className="d-flex gap-2">
+                <Input type="number" placeholder="Mínimo" value={condition.from} onChange={(e) => handleUpdate(index, { from: e.target.value })} />
+                <Input type="number" placeholder="Máximo" value={condition.to} onChange={(e) => handleUpdate(index, { to: e.target.value })} />
+            </div>
+        );
+    };
+
+    return (
+        <div className="border rounded p-3 mt-3">
+            {conditions.length === 0 && <p className="text-muted mb-2">No hay condiciones, agregue una para filtrar la tabla.</p>}
+
+            {conditions.map((condition, index) => (
+                <Row key={index} className="align-items-start mb-2 g-2">
+                    <Col lg={3}>
+                        <Input type="select" value={condition.field} onChange={(e) => handleFieldChange(index, e.target.value)}>
+                            {conditionColumns.map((col) => (
+                                <option key={col.accessor} value={col.accessor}>{col.header}</option>
+                            ))}
+                        </Input>
+                    </Col>
+                    <Col lg={8}>{renderConditionInputs(condition, index)}</Col>
+                    <Col lg={1} className="text-end">
+                        <Button color="danger" className="btn-icon" onClick={() => onChange(conditions.filter((_, i) => i !== index))}>
+                            <i className="ri-delete-bin-fill align-middle"></i>
+                        </Button>
+                    </Col>
+                </Row>
+            ))}
+
+            <div className="d-flex gap-2">
+                <Button color="primary" size="sm" onClick={handleAdd} disabled={conditionColumns.length === 0}>
+                    <i className="ri-add-line me-1"></i>
+                    Agregar condición
+                </Button>
+                <Button color="link" size="sm" onClick={() => onChange([])} disabled={conditions.length === 0}>
+                    Limpiar condiciones
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+export default TableFilterBuilder;
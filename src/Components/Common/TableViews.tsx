@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Alert, Badge, Button, DropdownItem, DropdownMenu, DropdownToggle, FormFeedback, Input, Label, Modal, ModalBody, ModalHeader, Spinner, UncontrolledDropdown } from "reactstrap";
+import * as Yup from "yup";
+import { useFormik } from "formik";
+import { APIClient } from "helpers/api_helper";
+import { TableView, TableViewState, decodeTableView, encodeTableView } from "helpers/table_helper";
+
+const axiosHelper = new APIClient();
+const apiUrl = process.env.REACT_APP_API_URL;
+
+interface TableViewsProps {
+    tableId: string;
+    currentState: TableViewState;
+    onApply: (view: TableViewState) => void;
+}
+
+// Parámetro de la URL con el que se comparte una vista, p. ej. ?vista_incomes=...
+const shareParam = (tableId: string) => `vista_${tableId}`;
+
+const TableViews: React.FC<TableViewsProps> = ({ tableId, currentState, onApply }) => {
+    const [searchParams] = useSearchParams();
+    const [views, setViews] = useState<TableView[]>([]);
+    const [defaultView, setDefaultView] = useState<string>("");
+    const [activeView, setActiveView] = useState<string>("");
+    const [modals, setModals] = useState({ save: false });
+    const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
+
+    const handleError = (error: any, message: string) => {
+        console.error(message, error);
+        setAlertConfig({ visible: true, color: "danger", message });
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    };
+
+    const showAlert = (color: string, message: string) => {
+        setAlertConfig({ visible: true, color: color, message: message })
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    }
+
+    const toggleModal = (modalName: keyof typeof modals, state?: boolean) => {
+        setModals((prev) => ({ ...prev, [modalName]: state ?? !prev[modalName] }));
+    };
+
+    const applyView = (view: TableView) => {
+        const { name, ...state } = view;
+        onApply(state);
+        setActiveView(name);
+    };
+
+    // Una vista compartida por enlace tiene prioridad sobre la vista predeterminada del usuario
+    const handleFetchViews = async () => {
+        await axiosHelper.get(`${apiUrl}/user/get_table_views/${tableId}`)
+            .then((response) => {
+                const savedViews: TableView[] = response.data.data?.views || [];
+                const savedDefault: string = response.data.data?.defaultView || "";
+                setViews(savedViews);
+                setDefaultView(savedDefault);
+
+                const sharedView = decodeTableView(searchParams.get(shareParam(tableId)));
+                const initialView = sharedView || savedViews.find((view) => view.name === savedDefault);
+                if (initialView) applyView(initialView);
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener las vistas guardadas, intentelo más tarde')
+            })
+    }
+
+    const handleSaveViews = async (updatedViews: TableView[], updatedDefault: string, message: string) => {
+        await axiosHelper.put(`${apiUrl}/user/update_table_views/${tableId}`, { views: updatedViews, defaultView: updatedDefault })
+            .then(() => {
+                setViews(updatedViews);
+                setDefaultView(updatedDefault);
+                showAlert('success', message);
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al guardar las vistas, intentelo más tarde')
+            })
+    }
+
+    const handleDeleteView = async () => {
+        await handleSaveViews(
+            views.filter((view) => view.name !== activeView),
+            defaultView === activeView ? "" : defaultView,
+            'Vista eliminada correctamente'
+        );
+        setActiveView("");
+    }
+
+    const handleCopyLink = async () => {
+        const params = new URLSearchParams(window.location.search);
+        params.set(shareParam(tableId), encodeTableView({ name: activeView || "Vista compartida", ...currentState }));
+        const link = `${window.location.origin}${window.location.pathname}?${params.toString()}`;
+
+        await navigator.clipboard.writeText(link)
+            .then(() => showAlert('success', 'Enlace de la vista copiado al portapapeles'))
+            .catch((error) => handleError(error, 'No se ha podido copiar el enlace de la vista'))
+    }
+
+    const formik = useFormik({
+        initialValues: { name: "", isDefault: false },
+        validationSchema: Yup.object({
+            name: Yup.string().trim().required("Por favor, ingrese el nombre de la vista"),
+        }),
+        onSubmit: async (values, { setSubmitting, resetForm }) => {
+            const name = values.name.trim();
+            const view: TableView = { name, ...currentState };
+            // Guardar con un nombre existente reemplaza esa vista
+            const updatedViews = [...views.filter((v) => v.name !== name), view];
+
+            await handleSaveViews(updatedViews, values.isDefault ? name : defaultView, 'Vista guardada correctamente');
+            setActiveView(name);
+            setSubmitting(false);
+            resetForm();
+            toggleModal('save', false);
+        },
+    });
+
+    useEffect(() => {
+        handleFetchViews();
+    }, [tableId])
+
+    return (
+        <>
+            <UncontrolledDropdown>
+                <DropdownToggle color="light" caret>
+                    <i className="ri-layout-grid-line me-2"></i>
+                    {activeView || "Vistas"}
+                </DropdownToggle>
+                <DropdownMenu end>
+                    <DropdownItem header>Vistas guardadas</DropdownItem>
+                    {views.length === 0 && <DropdownItem disabled>No hay vistas guardadas</DropdownItem>}
+                    {views.map((view) => (
+                        <DropdownItem key={view.name} active={view.name === activeView} onClick={() => applyView(view)}>
+                            {view.name}
+                            {view.name === defaultView && <Badge color="info" className="ms-2">Predeterminada</Badge>}
+                        </DropdownItem>
+                    ))}
+                    <DropdownItem divider />
+                    <DropdownItem onClick={() => { formik.setFieldValue('name', activeView); toggleModal('save'); }}>
+                        <i className="ri-save-line me-2"></i>
+                        Guardar vista actual
+                    </DropdownItem>
+                    <DropdownItem onClick={handleCopyLink}>
+                        <i className="ri-share-line me-2"></i>
+                        Copiar enlace para compartir
+                    </DropdownItem>
+                    {views.some((view) => view.name === activeView) && (
+                        <>
+                            <DropdownItem
+                                disabled={activeView === defaultView}
+                                onClick={() => handleSaveViews(views, activeView, 'Vista predeterminada actualizada')}
+                            >
+                                <i className="ri-star-line me-2"></i>
+                                Usar como predeterminada
+                            </DropdownItem>
+                            <DropdownItem className="text-danger" onClick={handleDeleteView}>
+                                <i className="ri-delete-bin-line me-2"></i>
+                                Eliminar vista
+                            </DropdownItem>
+                        </>
+                    )}
+                </DropdownMenu>
+            </UncontrolledDropdown>
+
+            <Modal isOpen={modals.save} centered toggle={() => toggleModal('save', false)}>
+                <ModalHeader toggle={() => toggleModal('save', false)}>Guardar vista</ModalHeader>
+                <ModalBody>
+                    <form onSubmit={(e) => { e.preventDefault(); formik.handleSubmit(); }}>
+                        <Label htmlFor="viewNameInput" className="form-label">Nombre de la vista</Label>
+                        <Input
+                            type="text"
+                            id="viewNameInput"
+                            name="name"
+                            value={formik.values.name}
+                            onChange={formik.handleChange}
+                            onBlur={formik.handleBlur}
+                            invalid={formik.touched.name && !!formik.errors.name}
+                        />
+                        {formik.touched.name && formik.errors.name && <FormFeedback>{formik.errors.name}</FormFeedback>}
+
+                        <div className="form-check mt-3">
+                            <Input
+                                type="checkbox"
+                                className="form-check-input"
+                                id="viewDefaultInput"
+                                name="isDefault"
+                                checked={formik.values.isDefault}
+                                onChange={formik.handleChange}
+                            />
+                            <Label className="form-check-label" htmlFor="viewDefaultInput">Usar como vista predeterminada de esta tabla</Label>
+                        </div>
+
+                        <div className="d-flex justify-content-end mt-4 gap-2">
+                            <Button color="danger" onClick={() => toggleModal('save', false)} disabled={formik.isSubmitting}>
+                                Cancelar
+                            </Button>
+                            <Button color="success" type="submit" disabled={formik.isSubmitting}>
+                                {formik.isSubmitting ? <Spinner size="sm" /> : "Guardar"}
+                            </Button>
+                        </div>
+                    </form>
+                </ModalBody>
+            </Modal>
+
+            {alertConfig.visible && (
+                <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
+                    {alertConfig.message}
+                </Alert>
+            )}
+        </>
+    );
+};
+
+export default TableViews;
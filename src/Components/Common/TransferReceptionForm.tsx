@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from "react";
+import { Alert, Button, FormFeedback, Input, Label, Spinner, Table } from "reactstrap";
+import * as Yup from "yup";
+import { useFormik } from "formik";
+import { APIClient, getLoggedinUserName } from "helpers/api_helper";
+import { OutcomeData, TransferReception, TransferReceptionLine } from "./OutcomeForm";
+
+const axiosHelper = new APIClient();
+const apiUrl = process.env.REACT_APP_API_URL;
+
+interface TransferReceptionFormProps {
+    transfer: OutcomeData;
+    manager: string;
+    onSubmit: (data: TransferReception) => Promise<void>;
+    onCancel: () => void;
+}
+
+/**
+ * Líneas con faltantes o daños y su valor, que se registran como pérdida del almacén de origen
+ * @param {*} transfer
+ * @param {*} reception
+ */
+export const receptionLosses = (transfer: OutcomeData, reception: TransferReception) => {
+    return reception.lines
+        .filter((line) => line.shortage > 0 || line.damaged > 0)
+        .map((line) => {
+            const price = transfer.products.find((p) => p.id === line.id)?.price || 0;
+            const quantity = line.shortage + line.damaged;
+            return { id: line.id, shortage: line.shortage, damaged: line.damaged, quantity, value: parseFloat((quantity * price).toFixed(2)) };
+        });
+}
+
+const validationSchema = Yup.object({
+    lines: Yup.array().of(
+        Yup.object({
+            shortage: Yup.number().min(0, "La cantidad no puede ser negativa"),
+            damaged: Yup.number().min(0, "La cantidad no puede ser negativa"),
+        }).test('within_sent', 'Los faltantes y daños no pueden superar la cantidad enviada', (line: any) => line.shortage + line.damaged <= line.sent)
+    ),
+});
+
+const TransferReceptionForm: React.FC<TransferReceptionFormProps> = ({ transfer, manager, onSubmit, onCancel }) => {
+    const [productNames, setProductNames] = useState<Record<string, string>>({});
+    const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
+
+    const handleError = (error: any, message: string) => {
+        console.error(message, error);
+        setAlertConfig({ visible: true, color: "danger", message });
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    };
+
+    const fetchProducts = async () => {
+        await axiosHelper.create(`${apiUrl}/product/find_products_by_array`, transfer.products)
+            .then((response) => {
+                const names: Record<string, string> = {};
+                response.data.data.forEach((product: any) => names[product.id] = product.name);
+                setProductNames(names);
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener los productos, intentelo más tarde')
+            })
+    }
+
+    const formik = useFormik<{ lines: Array<TransferReceptionLine> }>({
+        initialValues: {
+            lines: transfer.products.map((p) => ({ id: p.id, sent: p.quantity, received: p.quantity, shortage: 0, damaged: 0, notes: "" })),
+        },
+        validationSchema,
+        validateOnChange: false,
+        validateOnBlur: true,
+        onSubmit: async (values, { setSubmitting }) => {
+            try {
+                setSubmitting(true);
+                await onSubmit({
+                    user: getLoggedinUserName(),
+                    manager,
+                    date: new Date().toLocaleDateString("es-ES"),
+                    lines: values.lines,
+                });
+            } catch (error) {
+                console.error("Error al enviar el formulario:", error);
+            } finally {
+                setSubmitting(false);
+            }
+        },
+    });
+
+    // Lo recibido siempre es lo enviado menos los faltantes y los daños
+    const handleLineChange = (index: number, field: 'shortage' | 'damaged' | 'notes', value: string) => {
+        const line = { ...formik.values.lines[index] };
+        if (field === 'notes') {
+            line.notes = value;
+        } else {
+            line[field] = Math.max(parseFloat(value) || 0, 0);
+            line.received = line.sent - line.shortage - line.damaged;
+        }
+        formik.setFieldValue(`lines[${index}]`, line);
+    }
+
+    const hasDiscrepancies = formik.values.lines.some((line) => line.shortage > 0 || line.damaged > 0);
+
+    useEffect(() => {
+        fetchProducts();
+    }, [])
+
+    return (
+        <>
+            <form onSubmit={(e) => { e.preventDefault(); formik.handleSubmit(); }}>
+                <Label className="form-label">Recibe: {manager}</Label>
+
+                <div className="table-responsive">
+                    <Table className="align-middle table-nowrap mb-0" striped>
+                        <thead className="table-light">
+                            <tr>
+                                <th>Producto</th>
+                                <th>Enviado</th>
+                                <th>Faltante</th>
+                                <th>Dañado</th>
+                                <th>Recibido</th>
+                                <th>Observaciones</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {formik.values.lines.map((line, index) => {
+                                const invalid = line.shortage + line.damaged > line.sent;
+                                return (
+                                    <tr key={line.id}>
+                                        <td>{productNames[line.id] || line.id}</td>
+                                        <td>{line.sent}</td>
+                                        <td style={{ maxWidth: '110px' }}>
+                                            <Input type="number" min={0} value={line.shortage} invalid={invalid} onChange={(e) => handleLineChange(index, 'shortage', e.target.value)} />
+                                        </td>
+                                        <td style={{ maxWidth: '110px' }}>
+                                            <Input type="number" min={0} value={line.damaged} invalid={invalid} onChange={(e) => handleLineChange(index, 'damaged', e.target.value)} />
+                                        </td>
+                                        <td className={line.received < line.sent ? "text-danger fw-semibold" : ""}>{line.received}</td>
+                                        <td>
+                                            <Input type="text" value={line.notes} onChange={(e) => handleLineChange(index, 'notes', e.target.value)} />
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </Table>
+                </div>
+                {formik.errors.lines && <FormFeedback className="d-block">Los faltantes y daños no pueden superar la cantidad enviada</FormFeedback>}
+
+                {hasDiscrepancies && (
+                    <Alert color="warning" className="mt-3 mb-0">
+                        Los faltantes y daños se registrarán como pérdida del almacén de origen.
+                    </Alert>
+                )}
+
+                <div className="d-flex justify-content-end mt-4 gap-2">
+                    <Button color="danger" onClick={onCancel} disabled={formik.isSubmitting}>
+                        Cancelar
+                    </Button>
+                    <Button color="success" type="submit" disabled={formik.isSubmitting}>
+                        {formik.isSubmitting ? <Spinner size="sm" /> : "Confirmar Recepción"}
+                    </Button>
+                </div>
+            </form>
+
+            {alertConfig.visible && (
+                <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
+                    {alertConfig.message}
+                </Alert>
+            )}
+        </>
+    );
+};
+
+export default TransferReceptionForm;
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { Dropdown, DropdownItem, DropdownMenu, DropdownToggle } from 'reactstrap';
+import { useSearchParams } from 'react-router-dom';
+import { useDispatch } from 'react-redux';
+
+import { changeWarehouse, fetchWarehouses } from '../../slices/thunks';
+import { useWarehouse } from '../Hooks/WarehouseHooks';
+
+const WarehouseDropdown = () => {
+    const dispatch: any = useDispatch();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const { warehouseId, warehouses, selectedWarehouse } = useWarehouse();
+
+    const [isWarehouseDropdown, setIsWarehouseDropdown] = useState<boolean>(false);
+    const toggleWarehouseDropdown = () => {
+        setIsWarehouseDropdown(!isWarehouseDropdown);
+    };
+
+    const handleChangeWarehouse = (id: string) => {
+        dispatch(changeWarehouse(id));
+        searchParams.set('warehouse', id);
+        setSearchParams(searchParams, { replace: true });
+    };
+
+    useEffect(() => {
+        dispatch(fetchWarehouses());
+    }, [dispatch]);
+
+    // Sincroniza el almacén seleccionado con el parámetro "warehouse" de la URL.
+    // Si la URL apunta a un subalmacén (p. ej. detalles de producto) se respeta sin cambiar la selección.
+    useEffect(() => {
+        if (warehouses.length === 0) return;
+        const urlWarehouse = searchParams.get('warehouse');
+
+        if (urlWarehouse) {
+            const isGeneralWarehouse = warehouses.some((w: any) => w.id === urlWarehouse);
+            if (isGeneralWarehouse && urlWarehouse !== warehouseId) {
+                dispatch(changeWarehouse(urlWarehouse));
+            }
+        } else if (warehouseId) {
+            searchParams.set('warehouse', warehouseId);
+            setSearchParams(searchParams, { replace: true });
+        }
+    }, [searchParams, warehouses, warehouseId]);
+
+    return (
+        <React.Fragment>
+            <Dropdown isOpen={isWarehouseDropdown} toggle={toggleWarehouseDropdown} className="ms-1 topbar-head-dropdown header-item">
+                <DropdownToggle className="btn btn-topbar btn-ghost-secondary" tag="button">
+                    <i className="ri-community-line align-middle me-2"></i>
+                    <span className="align-middle">{selectedWarehouse?.name || 'Seleccione un almacén'}</span>
+                    <i className="ri-arrow-down-s-line align-middle ms-1"></i>
+                </DropdownToggle>
+                <DropdownMenu className="dropdown-menu-end py-2">
+                    {warehouses.map((warehouse: any) => (
+                        <DropdownItem
+                            key={warehouse.id}
+                            onClick={() => handleChangeWarehouse(warehouse.id)}
+                            className={`notify-item ${warehouseId === warehouse.id ? "active" : "none"}`}
+                        >
+                            <span className="align-middle">{warehouse.name}</span>
+                        </DropdownItem>
+                    ))}
+                </DropdownMenu>
+            </Dropdown>
+        </React.Fragment>
+    );
+};
+
+export default WarehouseDropdown;
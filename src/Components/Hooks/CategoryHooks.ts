@@ -0,0 +1,31 @@
+import { useEffect } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { createSelector } from "reselect";
+import { DEFAULT_TAX_RATE } from "../../helpers/tax_helper";
+import { ProductCategory } from "../../slices/categories/reducer";
+import { fetchCategories } from "../../slices/thunks";
+
+const selectCategoriesState = (state: any) => state.Categories;
+const selectCategoriesProperties = createSelector(
+  selectCategoriesState,
+  (categories) => ({
+    categories: categories.categories as ProductCategory[],
+    loaded: categories.loaded as boolean,
+  })
+);
+
+const useCategories = () => {
+  const dispatch: any = useDispatch();
+  const { categories, loaded } = useSelector(selectCategoriesProperties);
+
+  useEffect(() => {
+    if (!loaded) dispatch(fetchCategories());
+  }, [loaded, dispatch]);
+
+  const isLotTrackedCategory = (category: string) => categories.some((c) => c.value === category && c.lotTracked);
+  const getCategoryTaxRate = (category: string) => categories.find((c) => c.value === category)?.taxRate ?? DEFAULT_TAX_RATE;
+
+  return { categories, isLotTrackedCategory, getCategoryTaxRate };
+};
+
+export { useCategories };
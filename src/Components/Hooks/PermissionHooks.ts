@@ -0,0 +1,16 @@
+import { Permission, getUserRole, hasPermission, isWarehouseManager } from "../../helpers/permissions";
+import { useProfile } from "./UserHooks";
+
+const usePermissions = () => {
+  const { userProfile } = useProfile();
+  const role = getUserRole(userProfile);
+
+  const can = (permission?: Permission) => !permission || hasPermission(role, permission);
+
+  // Solo el responsable del almacén, o un administrador, puede actuar en su nombre (p. ej. confirmar recepciones)
+  const isManagerOf = (manager?: string) => role === "admin" || isWarehouseManager(userProfile, manager);
+
+  return { role, can, isManagerOf };
+};
+
+export { usePermissions };
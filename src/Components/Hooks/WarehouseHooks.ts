@@ -0,0 +1,20 @@
+import { useSelector } from "react-redux";
+import { createSelector } from "reselect";
+
+const selectWarehouseState = (state: any) => state.Warehouse;
+const selectWarehouseProperties = createSelector(
+  selectWarehouseState,
+  (warehouse) => ({
+    warehouseId: warehouse.selectedWarehouse,
+    warehouses: warehouse.warehouses,
+  })
+);
+
+const useWarehouse = () => {
+  const { warehouseId, warehouses } = useSelector(selectWarehouseProperties);
+  const selectedWarehouse = warehouses.find((w: any) => w.id === warehouseId);
+
+  return { warehouseId, warehouses, selectedWarehouse };
+};
+
+export { useWarehouse };
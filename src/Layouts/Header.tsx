@@ -16,6 +16,7 @@ import FullScreenDropdown from '../Components/Common/FullScreenDropdown';
 import NotificationDropdown from '../Components/Common/NotificationDropdown';
 import ProfileDropdown from '../Components/Common/ProfileDropdown';
 import LightDark from '../Components/Common/LightDark';
+import WarehouseDropdown from '../Components/Common/WarehouseDropdown';
 
 import { changeSidebarVisibility } from '../slices/thunks';
 import { useSelector, useDispatch } from "react-redux";
@@ -135,6 +136,9 @@ const Header = ({ onChangeLayoutMode, layoutModeType, headerClass } : any) => {
                                 </DropdownMenu>
                             </Dropdown>
 
+                            {/* WarehouseDropdown */}
+                            <WarehouseDropdown />
+
                             {/* LanguageDropdown */}
                             {/* <LanguageDropdown /> */}
 
@@ -154,7 +158,7 @@ const Header = ({ onChangeLayoutMode, layoutModeType, headerClass } : any) => {
                             /> */}
 
                             {/* NotificationDropdown */}
-                            {/* <NotificationDropdown /> */}
+                            <NotificationDropdown />
 
                             {/* ProfileDropdown */}
                             {/*<ProfileDropdown /> */}
@@ -1,8 +1,10 @@
 import React, { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { usePermissions } from "../Components/Hooks/PermissionHooks";
 
 const Navdata = () => {
     const history = useNavigate();
+    const { can } = usePermissions();
 
     //state data
     const [isHome, setIsHome] = useState<boolean>(false);
@@ -11,6 +13,7 @@ const Navdata = () => {
 
     //Warehouse
     const [isSuppliers, setIsSupplier] = useState<boolean>(false)
+    const [isPurchaseOrders, setIsPurchaseOrders] = useState<boolean>(false)
     const [isIncomes, setIsIncomes] = useState<boolean>(false)
     const [isOutcomes, setIsOutcomes] = useState<boolean>(false)
     const [isInventory, setIsInventory] = useState<boolean>(false)
@@ -80,6 +83,7 @@ const Navdata = () => {
                     id: "inventory",
                     label: "Inventario",
                     link: "/warehouse/inventory/view_inventory",
+                    permission: "inventory.view",
                     parentId: "warehouse",
                     click: function (e: any) {
                         e.preventDefault();
@@ -87,6 +91,55 @@ const Navdata = () => {
                     },
                     stateVariables: isInventory,
                 },
+                {
+                    id: "physical_count",
+                    label: "Conteo Físico",
+                    link: "/warehouse/inventory/physical_count",
+                    permission: "inventory.adjust",
+                    parentId: "warehouse",
+                },
+                {
+                    id: "replenishment",
+                    label: "Reabastecimiento",
+                    link: "/warehouse/inventory/replenishment",
+                    permission: "reports.view",
+                    parentId: "warehouse",
+                },
+                {
+                    id: "inventory_valuation",
+                    label: "Valoración de Inventario",
+                    link: "/warehouse/inventory/valuation",
+                    permission: "reports.view",
+                    parentId: "warehouse",
+                },
+                {
+                    id: "purchase_orders",
+                    label: "Órdenes de Compra",
+                    link: "/#",
+                    parentId: "warehouse",
+                    isChildItem: true,
+                    click: function (e: any) {
+                        e.preventDefault();
+                        setIsPurchaseOrders(!isPurchaseOrders);
+                    },
+                    stateVariables: isPurchaseOrders,
+                    childItems: [
+                        {
+                            id: 1,
+                            label: "Nueva Orden",
+                            link: "/warehouse/purchase_orders/create_purchase_order",
+                            permission: "purchase_orders.create",
+                            parentId: "purchase_orders"
+                        },
+                        {
+                            id: 2,
+                            label: "Ver Órdenes",
+                            link: "/warehouse/purchase_orders/view_purchase_orders",
+                            permission: "purchase_orders.view",
+                            parentId: "purchase_orders"
+                        },
+                    ]
+                },
                 {
                     id: "incomes",
                     label: "Entradas",
@@ -103,12 +156,14 @@ const Navdata = () => {
                             id: 1,
                             label: "Nueva Entrada",
                             link: "/warehouse/incomes/create_income",
+                            permission: "incomes.create",
                             parentId: "incomes"
                         },
                         {
                             id: 2,
                             label: "Ver Entradas",
                             link: "/warehouse/incomes/view_incomes",
+                            permission: "incomes.view",
                             parentId: "incomes"
                         },
                     ]
@@ -129,12 +184,14 @@ const Navdata = () => {
                             id: 1,
                             label: "Nueva Salida",
                             link: "/warehouse/outcomes/create_outcome",
+                            permission: "outcomes.create",
                             parentId: "outcomes"
                         },
                         {
                             id: 2,
                             label: "Ver Salidas",
                             link: "/warehouse/outcomes/view_outcomes",
+                            permission: "outcomes.view",
                             parentId: "outcomes"
                         },
                     ]
@@ -143,6 +200,7 @@ const Navdata = () => {
                     id: "suppliers",
                     label: "Proveedores",
                     link: "/warehouse/suppliers/view_suppliers",
+                    permission: "suppliers.view",
                     parentId: "warehouse",
                     click: function (e: any) {
                         e.preventDefault();
@@ -154,6 +212,7 @@ const Navdata = () => {
                     id: "products",
                     label: "Catálogo de Productos",
                     link: "/warehouse/products/product_catalog",
+                    permission: "products.view",
                     parentId: "warehouse",
                     click: function (e: any) {
                         e.preventDefault();
@@ -167,6 +226,7 @@ const Navdata = () => {
             label: 'Subalmacénes',
             icon: 'ri-building-3-line',
             link: '/subwarehouse/view_subwarehouse',
+            permission: 'subwarehouses.view',
             click: function (e: any) {
                 e.preventDefault();
                 setIsSubwarehouse(!isSubwarehouse);
@@ -175,6 +235,17 @@ const Navdata = () => {
             },
         }
     ];
-    return <React.Fragment>{menuItems}</React.Fragment>;
+
+    // Oculta las opciones sin permiso y los grupos que se quedan sin opciones visibles
+    const filterByPermission = (items: any[]): any[] => items
+        .filter((item) => can(item.permission))
+        .map((item) => ({
+            ...item,
+            ...(item.subItems && { subItems: filterByPermission(item.subItems) }),
+            ...(item.childItems && { childItems: filterByPermission(item.childItems) }),
+        }))
+        .filter((item) => !(item.subItems || item.childItems) || (item.subItems || item.childItems).length > 0);
+
+    return <React.Fragment>{filterByPermission(menuItems)}</React.Fragment>;
 };
 export default Navdata;
\ No newline at end of file
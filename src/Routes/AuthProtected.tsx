@@ -4,12 +4,14 @@ import { setAuthorization } from "../helpers/api_helper";
 import { useDispatch } from "react-redux";
 
 import { useProfile } from "../Components/Hooks/UserHooks";
+import { usePermissions } from "../Components/Hooks/PermissionHooks";
 
 import { logoutUser } from "../slices/auth/login/thunk";
 
 const AuthProtected = (props : any) =>{
   const dispatch : any = useDispatch();
   const { userProfile, loading, token } = useProfile();
+  const { can } = usePermissions();
   
   useEffect(() => {
     if (userProfile && !loading && token) {
@@ -29,6 +31,13 @@ const AuthProtected = (props : any) =>{
     );
   }
 
+  // La ruta existe pero el rol del usuario no tiene el permiso que exige
+  if (!can(props.permission)) {
+    return (
+      <Navigate to={{ pathname: "/auth-403"}} />
+    );
+  }
+
   return <>{props.children}</>;
 };
 
@@ -7,6 +7,10 @@ import Home from "pages/Home/Index";
 
 import ViewInventory from "pages/Inventory/ViewInventory";
 import ProductDetails from "pages/Inventory/InventoryDetails";
+import PhysicalCount from "pages/Inventory/PhysicalCount";
+import Replenishment from "pages/Inventory/Replenishment";
+import Kardex from "pages/Inventory/Kardex";
+import InventoryValuation from "pages/Inventory/InventoryValuation";
 import Suppliers from "pages/Suppliers/Suppliers";
 import CreateSupplier from "pages/Suppliers/CreateSupplier";
 import ViewIncome from "pages/Incomes/ViewIncomes"
@@ -21,6 +25,7 @@ import Basic404 from '../pages/AuthenticationInner/Errors/Basic404';
 import Cover404 from '../pages/AuthenticationInner/Errors/Cover404';
 import Alt404 from '../pages/AuthenticationInner/Errors/Alt404';
 import Error500 from '../pages/AuthenticationInner/Errors/Error500';
+import Error403 from '../pages/AuthenticationInner/Errors/Error403';
 import Offlinepage from "../pages/AuthenticationInner/Errors/Offlinepage";
 
 // //login
@@ -39,10 +44,15 @@ import SubwarehouseDetails from "pages/Subwarehouse/SubwarehouseDetails";
 import ViewOutcomes from "pages/Outcomes/ViewOutcomes";
 import CreateOutcome from "pages/Outcomes/CreateOutcome";
 import OutcomeDetails from "pages/Outcomes/OutcomeDetails";
+import ViewPurchaseOrders from "pages/PurchaseOrders/ViewPurchaseOrders";
+import CreatePurchaseOrder from "pages/PurchaseOrders/CreatePurchaseOrder";
+import PurchaseOrderDetails from "pages/PurchaseOrders/PurchaseOrderDetails";
+import { Permission } from "helpers/permissions";
 
 
 
-const authProtectedRoutes = [
+// permission: permiso que exige la ruta; sin él cualquier usuario autenticado puede acceder
+const authProtectedRoutes: Array<{ path: string; component: JSX.Element; exact?: boolean; permission?: Permission }> = [
 
   // home
   { path: "/home", component: <Home /> },
@@ -50,31 +60,40 @@ const authProtectedRoutes = [
   //Warehouse
 
   //Warehouse - Inventory
-  { path: '/warehouse/inventory/create_product', component: <CreateProduct /> },
-  { path: '/warehouse/inventory/view_inventory', component: <ViewInventory /> },
-  { path: '/warehouse/inventory/product_details', component: <ProductDetails /> },
+  { path: '/warehouse/inventory/create_product', component: <CreateProduct />, permission: 'products.create' },
+  { path: '/warehouse/inventory/view_inventory', component: <ViewInventory />, permission: 'inventory.view' },
+  { path: '/warehouse/inventory/product_details', component: <ProductDetails />, permission: 'inventory.view' },
+  { path: '/warehouse/inventory/physical_count', component: <PhysicalCount />, permission: 'inventory.adjust' },
+  { path: '/warehouse/inventory/replenishment', component: <Replenishment />, permission: 'reports.view' },
+  { path: '/warehouse/inventory/kardex', component: <Kardex />, permission: 'reports.view' },
+  { path: '/warehouse/inventory/valuation', component: <InventoryValuation />, permission: 'reports.view' },
 
   //Warehouse - Suppliers
-  { path: '/warehouse/suppliers/view_suppliers', component: <Suppliers /> },
-  { path: '/warehouse/suppliers/create_supplier', component: <CreateSupplier /> },
-  { path: '/warehouse/suppliers/supplier_details/:id_supplier', component: <SupplierDetails /> },
+  { path: '/warehouse/suppliers/view_suppliers', component: <Suppliers />, permission: 'suppliers.view' },
+  { path: '/warehouse/suppliers/create_supplier', component: <CreateSupplier />, permission: 'suppliers.create' },
+  { path: '/warehouse/suppliers/supplier_details/:id_supplier', component: <SupplierDetails />, permission: 'suppliers.view' },
+
+  //Warehouse - Purchase Orders
+  { path: '/warehouse/purchase_orders/create_purchase_order', component: <CreatePurchaseOrder />, permission: 'purchase_orders.create' },
+  { path: '/warehouse/purchase_orders/view_purchase_orders', component: <ViewPurchaseOrders />, permission: 'purchase_orders.view' },
+  { path: '/warehouse/purchase_orders/purchase_order_details/:id_purchase_order', component: <PurchaseOrderDetails />, permission: 'purchase_orders.view' },
 
   //Warehouse - Incomes
-  { path: '/warehouse/incomes/create_income', component: <CreateIncome /> },
-  { path: '/warehouse/incomes/view_incomes', component: <ViewIncome /> },
-  { path: '/warehouse/incomes/income_details/:id_income', component: <IncomeDetails /> },
+  { path: '/warehouse/incomes/create_income', component: <CreateIncome />, permission: 'incomes.create' },
+  { path: '/warehouse/incomes/view_incomes', component: <ViewIncome />, permission: 'incomes.view' },
+  { path: '/warehouse/incomes/income_details/:id_income', component: <IncomeDetails />, permission: 'incomes.view' },
 
   //Warehouse - Outcomes
-  { path: '/warehouse/outcomes/create_outcome', component: <CreateOutcome /> },
-  { path: '/warehouse/outcomes/view_outcomes', component: <ViewOutcomes /> },
-  { path: '/warehouse/outcomes/outcome_details/:id_outcome', component: <OutcomeDetails /> },
+  { path: '/warehouse/outcomes/create_outcome', component: <CreateOutcome />, permission: 'outcomes.create' },
+  { path: '/warehouse/outcomes/view_outcomes', component: <ViewOutcomes />, permission: 'outcomes.view' },
+  { path: '/warehouse/outcomes/outcome_details/:id_outcome', component: <OutcomeDetails />, permission: 'outcomes.view' },
 
   //Warehouse - Product Catalog
-  { path: '/warehouse/products/product_catalog', component: <ViewProducts /> },
+  { path: '/warehouse/products/product_catalog', component: <ViewProducts />, permission: 'products.view' },
 
   //Subwarehouse
-  { path: '/subwarehouse/view_subwarehouse', component: <ViewSubwarehouse /> },
-  { path: '/subwarehouse/subwarehouse_details/:id_subwarehouse', component: <SubwarehouseDetails /> },
+  { path: '/subwarehouse/view_subwarehouse', component: <ViewSubwarehouse />, permission: 'subwarehouses.view' },
+  { path: '/subwarehouse/subwarehouse_details/:id_subwarehouse', component: <SubwarehouseDetails />, permission: 'subwarehouses.view' },
 
   //User Profile
   { path: "/profile", component: <UserProfile /> },
@@ -101,6 +120,7 @@ const publicRoutes = [
   { path: "/auth-404-cover", component: <Cover404 /> },
   { path: "/auth-404-alt", component: <Alt404 /> },
   { path: "/auth-500", component: <Error500 /> },
+  { path: "/auth-403", component: <Error403 /> },
   { path: "/auth-offline", component: <Offlinepage /> },
 
 ];
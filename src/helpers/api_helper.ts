@@ -35,7 +35,7 @@ class APIClient {
 
     if (params) {
       Object.keys(params).map(key => {
-        paramKeys.push(key + '=' + params[key]);
+        paramKeys.push(key + '=' + encodeURIComponent(params[key]));
         return paramKeys;
       });
 
@@ -97,4 +97,12 @@ const getLoggedinUser = () => {
   }
 };
 
-export { APIClient, setAuthorization, getLoggedinUser };
\ No newline at end of file
+/**
+ * Name under which the logged in user is recorded in audit fields (cancellations, receptions)
+ */
+const getLoggedinUserName = (): string => {
+  const user = getLoggedinUser();
+  return user?.data?.first_name || user?.username || user?.email || user?.data?.email || "Desconocido";
+};
+
+export { APIClient, setAuthorization, getLoggedinUser, getLoggedinUserName };
\ No newline at end of file
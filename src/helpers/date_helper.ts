@@ -0,0 +1,42 @@
+/**
+ * Converts a date stored as "dd/mm/yyyy" (the format produced by toLocaleDateString("es-ES"))
+ * into a Date object. Returns null when the string can't be parsed
+ * @param {*} value
+ */
+const parseDate = (value: string | undefined | null): Date | null => {
+  if (!value) return null;
+
+  const [day, month, year] = value.split(/[/-]/).map((part) => parseInt(part, 10));
+  if (!day || !month || !year) return null;
+
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Number of whole days from today until the given "dd/mm/yyyy" date (negative if it's in the past)
+ * @param {*} value
+ */
+const daysUntil = (value: string | undefined | null): number | null => {
+  const date = parseDate(value);
+  if (!date) return null;
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return Math.round((date.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+};
+
+/**
+ * Adds a number of days to a "dd/mm/yyyy" date and returns it in the same format
+ * @param {*} value
+ * @param {*} days
+ */
+const addDays = (value: string | undefined | null, days: number): string => {
+  const date = parseDate(value);
+  if (!date) return "";
+
+  date.setDate(date.getDate() + days);
+  return date.toLocaleDateString("es-ES");
+};
+
+export { parseDate, daysUntil, addDays };
@@ -0,0 +1,69 @@
+export interface ExportColumn {
+  header: string;
+  accessor: string;
+}
+
+// Spanish spreadsheets use the semicolon as list separator because the comma is the decimal mark
+const CSV_SEPARATOR = ";";
+
+const formatNumber = (value: number) => value.toLocaleString("es-ES", { maximumFractionDigits: 4 });
+
+const escapeCSV = (value: any): string => {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "number" ? formatNumber(value) : String(value);
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Triggers the browser download of a generated file
+ * @param {*} blob
+ * @param {*} fileName
+ */
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Builds a CSV from the given columns and rows and downloads it.
+ * The UTF-8 BOM lets Excel open accented characters correctly
+ * @param {*} fileName
+ * @param {*} columns
+ * @param {*} rows
+ */
+const exportToCSV = (fileName: string, columns: ExportColumn[], rows: Array<Record<string, any>>) => {
+  const lines = [
+    columns.map((column) => escapeCSV(column.header)).join(CSV_SEPARATOR),
+    ...rows.map((row) => columns.map((column) => escapeCSV(row[column.accessor])).join(CSV_SEPARATOR)),
+  ];
+
+  downloadBlob(new Blob(["\uFEFF" + lines.join("\r\n")], { type: "text/csv;charset=utf-8;" }), `${fileName}.csv`);
+};
+
+/**
+ * Builds a single-sheet XLSX from the given columns and rows and downloads it.
+ * Numbers are written as numeric cells so Excel shows them with the regional decimal mark.
+ * The spreadsheet library is loaded on demand so it stays out of the main bundle
+ * @param {*} fileName
+ * @param {*} columns
+ * @param {*} rows
+ */
+const exportToXLSX = async (fileName: string, columns: ExportColumn[], rows: Array<Record<string, any>>) => {
+  const { Workbook } = await import("exceljs");
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet("Datos");
+
+  sheet.columns = columns.map((column) => ({ header: column.header, key: column.accessor }));
+  rows.forEach((row) => {
+    sheet.addRow(columns.map((column) => (row[column.accessor] === undefined || row[column.accessor] === "" ? null : row[column.accessor])));
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }), `${fileName}.xlsx`);
+};
+
+export { downloadBlob, exportToCSV, exportToXLSX };
@@ -0,0 +1,126 @@
+import { storageService } from "./storage";
+
+export type ImageVariant = "thumbnail" | "full";
+
+export const THUMBNAIL_SIZE = 96;
+
+const DB_NAME = "imageCache";
+const STORE_NAME = "images";
+
+// Object URLs already created in this session, so every component showing the same image shares one
+const objectUrls = new Map<string, string>();
+// Downloads in progress, a table rendering many rows must not request the same image twice
+const pending = new Map<string, Promise<string>>();
+
+const cacheKey = (imageId: string, variant: ImageVariant) => `${variant}:${imageId}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Reads a blob from IndexedDB. When the browser has no IndexedDB (private mode) it behaves as a cache miss
+ * @param {*} key
+ */
+const readBlob = async (key: string): Promise<Blob | undefined> => {
+  try {
+    return await runRequest<Blob | undefined>("readonly", (store) => store.get(key));
+  } catch (error) {
+    console.warn("No se pudo leer la caché de imágenes", error);
+    return undefined;
+  }
+};
+
+const writeBlob = async (key: string, blob: Blob) => {
+  try {
+    await runRequest("readwrite", (store) => store.put(blob, key));
+  } catch (error) {
+    console.warn("No se pudo guardar la imagen en caché", error);
+  }
+};
+
+const deleteBlob = async (key: string) => {
+  try {
+    await runRequest("readwrite", (store) => store.delete(key));
+  } catch (error) {
+    console.warn("No se pudo eliminar la imagen de la caché", error);
+  }
+};
+
+const loadImage = async (imageId: string, variant: ImageVariant): Promise<string> => {
+  const key = cacheKey(imageId, variant);
+
+  let blob = await readBlob(key);
+  if (!blob) {
+    blob = variant === "thumbnail"
+      ? await storageService.getThumbnail(imageId, THUMBNAIL_SIZE)
+      : await storageService.download(imageId);
+    await writeBlob(key, blob);
+  }
+
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(key, url);
+  return url;
+};
+
+/**
+ * Returns an object URL for an image, downloading it only when it isn't cached yet.
+ * The URL is shared and must not be revoked by the caller
+ * @param {*} imageId
+ * @param {*} variant
+ */
+const getImageUrl = (imageId: string, variant: ImageVariant = "full"): Promise<string> => {
+  const key = cacheKey(imageId, variant);
+
+  const cached = objectUrls.get(key);
+  if (cached) return Promise.resolve(cached);
+
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+
+  const request = loadImage(imageId, variant).finally(() => pending.delete(key));
+  pending.set(key, request);
+  return request;
+};
+
+/**
+ * Removes every cached variant of an image, used when the image is replaced
+ * @param {*} imageId
+ */
+const invalidateImage = async (imageId: string) => {
+  const variants: ImageVariant[] = ["thumbnail", "full"];
+
+  await Promise.all(variants.map((variant) => {
+    const key = cacheKey(imageId, variant);
+    const url = objectUrls.get(key);
+    if (url) {
+      URL.revokeObjectURL(url);
+      objectUrls.delete(key);
+    }
+    return deleteBlob(key);
+  }));
+};
+
+export { getImageUrl, invalidateImage };
@@ -0,0 +1,82 @@
+import { buildKardex, kardexBalanceAsOf, toKardexMovements } from "./kardex_helper";
+
+describe("buildKardex", () => {
+  it("applies stock in before stock out on the same day", () => {
+    const rows = buildKardex([
+      { date: "05/03/2024", type: "consumption", document: "S001", quantity: -4 },
+      { date: "05/03/2024", type: "income", document: "E001", quantity: 10, unitCost: 2 },
+    ]);
+
+    expect(rows.map((row) => row.document)).toEqual(["E001", "S001"]);
+    expect(rows.map((row) => row.balance)).toEqual([10, 6]);
+  });
+
+  it("orders movements by date regardless of input order", () => {
+    const rows = buildKardex([
+      { date: "10/03/2024", type: "consumption", document: "S001", quantity: -2 },
+      { date: "01/03/2024", type: "income", document: "E001", quantity: 5, unitCost: 1 },
+    ]);
+
+    expect(rows.map((row) => row.document)).toEqual(["E001", "S001"]);
+  });
+
+  it("values stock with the weighted average cost", () => {
+    const rows = buildKardex([
+      { date: "01/03/2024", type: "income", document: "E001", quantity: 10, unitCost: 2 },
+      { date: "02/03/2024", type: "income", document: "E002", quantity: 10, unitCost: 4 },
+      { date: "03/03/2024", type: "consumption", document: "S001", quantity: -5 },
+    ]);
+
+    expect(rows[1].averageCost).toBe(3);
+    expect(rows[2].unitCost).toBe(3);
+    expect(rows[2].balance).toBe(15);
+    expect(rows[2].balanceValue).toBe(45);
+  });
+});
+
+describe("toKardexMovements", () => {
+  const warehouseId = "SA001";
+
+  it("counts a received transfer once, from the income the reception registers", () => {
+    const transfer = { id: "S001", date: "01/03/2024", status: true, warehouseOrigin: "AG001", warehouseDestiny: warehouseId, products: [{ id: "P1", quantity: 5, price: 2 }] };
+    const reception = { id: "E001", date: "02/03/2024", status: true, origin: { originType: "warehouse", id: "AG001" }, products: [{ id: "P1", quantity: 5, price: 2 }] };
+
+    const movements = toKardexMovements("P1", warehouseId, [reception], [transfer], []);
+
+    expect(movements).toEqual([{ date: "02/03/2024", type: "transfer", document: "E001", quantity: 5, unitCost: 2 }]);
+  });
+
+  it("keeps transfers sent from the warehouse as stock out", () => {
+    const transfer = { id: "S002", date: "03/03/2024", status: true, warehouseOrigin: warehouseId, warehouseDestiny: "AG001", outcomeType: "transfer", products: [{ id: "P1", quantity: 3 }] };
+
+    expect(toKardexMovements("P1", warehouseId, [], [transfer], [])).toEqual([
+      { date: "03/03/2024", type: "transfer", document: "S002", quantity: -3 },
+    ]);
+  });
+
+  it("adds up the lot lines of a product and leaves voided documents out", () => {
+    const income = { id: "E001", date: "01/03/2024", status: true, origin: { originType: "supplier", id: "PR001" }, products: [{ id: "P1", quantity: 4, price: 1 }, { id: "P1", quantity: 6, price: 2 }, { id: "P2", quantity: 1, price: 9 }] };
+    const voided = { id: "E002", date: "02/03/2024", status: false, origin: { originType: "supplier", id: "PR001" }, products: [{ id: "P1", quantity: 8, price: 1 }] };
+
+    const movements = toKardexMovements("P1", warehouseId, [income, voided], [], []);
+
+    expect(movements).toHaveLength(1);
+    expect(movements[0]).toMatchObject({ type: "income", document: "E001", quantity: 10, unitCost: 1.6 });
+  });
+});
+
+describe("kardexBalanceAsOf", () => {
+  const rows = buildKardex([
+    { date: "01/03/2024", type: "income", document: "E001", quantity: 10, unitCost: 2 },
+    { date: "05/03/2024", type: "consumption", document: "S001", quantity: -4 },
+  ]);
+
+  it("returns the balance at the end of the cut-off date", () => {
+    expect(kardexBalanceAsOf(rows, "04/03/2024")).toEqual({ balance: 10, averageCost: 2, value: 20 });
+    expect(kardexBalanceAsOf(rows, "05/03/2024")).toEqual({ balance: 6, averageCost: 2, value: 12 });
+  });
+
+  it("returns zero before the first movement", () => {
+    expect(kardexBalanceAsOf(rows, "28/02/2024")).toEqual({ balance: 0, averageCost: 0, value: 0 });
+  });
+});
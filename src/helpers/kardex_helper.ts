@@ -0,0 +1,139 @@
+import { parseDate } from "./date_helper";
+
+export interface KardexMovement {
+  date: string; // dd/mm/yyyy
+  type: string; // income | transfer | supplier_return | consumption | adjustment
+  document: string;
+  quantity: number; // Positive for stock in, negative for stock out
+  unitCost?: number; // Only stock in brings its own cost, stock out is valued at the running average
+}
+
+export interface KardexRow {
+  date: string;
+  type: string;
+  document: string;
+  quantityIn: number;
+  quantityOut: number;
+  balance: number;
+  unitCost: number;
+  averageCost: number;
+  balanceValue: number;
+}
+
+export const kardexTypeLabels: Record<string, string> = {
+  income: "Entrada",
+  transfer: "Traspaso",
+  supplier_return: "Devolución a proveedor",
+  consumption: "Consumo",
+  adjustment: "Ajuste",
+};
+
+const round = (value: number, decimals = 2) => parseFloat(value.toFixed(decimals));
+
+/**
+ * Sums the quantity of a product in the lines of a document (lot-tracked products may take several lines)
+ * @param {*} lines
+ * @param {*} productId
+ */
+const productLineTotals = (lines: Array<{ id: string; quantity: number; price?: number }> = [], productId: string) => {
+  const productLines = lines.filter((line) => line.id === productId);
+  const quantity = productLines.reduce((sum, line) => sum + line.quantity, 0);
+  const value = productLines.reduce((sum, line) => sum + line.quantity * (line.price || 0), 0);
+
+  return { quantity, price: quantity !== 0 ? value / quantity : 0 };
+};
+
+/**
+ * Turns the incomes, outcomes and adjustments of a product into signed movements.
+ * Voided or cancelled documents don't move stock and are left out. Stock in always comes from the incomes:
+ * the backend registers an income in the destination when a transfer is received (origin other than a supplier),
+ * so transfers into the warehouse are skipped on the outcomes side to count them only once
+ * @param {*} productId
+ * @param {*} warehouseId
+ * @param {*} incomes
+ * @param {*} outcomes
+ * @param {*} adjustments
+ */
+const toKardexMovements = (productId: string, warehouseId: string, incomes: any[], outcomes: any[], adjustments: any[]): KardexMovement[] => {
+  const movements: KardexMovement[] = [];
+
+  incomes.filter((income) => income.status !== false).forEach((income) => {
+    const { quantity, price } = productLineTotals(income.products, productId);
+    const type = income.origin?.originType && income.origin.originType !== "supplier" ? "transfer" : "income";
+    if (quantity) movements.push({ date: income.date, type, document: income.id, quantity, unitCost: price });
+  });
+
+  outcomes.filter((outcome) => outcome.status !== false).forEach((outcome) => {
+    const { quantity } = productLineTotals(outcome.products, productId);
+    if (!quantity || outcome.warehouseDestiny === warehouseId) return;
+
+    movements.push({ date: outcome.date, type: outcome.outcomeType, document: outcome.id, quantity: -quantity });
+  });
+
+  adjustments.filter((adjustment) => adjustment.status !== false).forEach((adjustment) => {
+    const { quantity, price } = productLineTotals(adjustment.products, productId);
+    if (quantity) movements.push({ date: adjustment.date, type: "adjustment", document: adjustment.id, quantity, unitCost: price || undefined });
+  });
+
+  return movements;
+};
+
+/**
+ * Builds the running ledger of a product using weighted average cost.
+ * Movements of the same day are applied stock in first so a day never shows a negative balance
+ * @param {*} movements
+ */
+const buildKardex = (movements: KardexMovement[]): KardexRow[] => {
+  const sorted = [...movements].sort((a, b) =>
+    ((parseDate(a.date)?.getTime() ?? 0) - (parseDate(b.date)?.getTime() ?? 0)) || (b.quantity - a.quantity)
+  );
+
+  let balance = 0;
+  let averageCost = 0;
+
+  return sorted.map((movement) => {
+    const isIn = movement.quantity > 0;
+    const quantity = Math.abs(movement.quantity);
+    const unitCost = isIn && movement.unitCost !== undefined ? movement.unitCost : averageCost;
+
+    if (isIn) {
+      const newBalance = balance + quantity;
+      averageCost = newBalance > 0 ? (balance * averageCost + quantity * unitCost) / newBalance : unitCost;
+      balance = newBalance;
+    } else {
+      balance -= quantity;
+    }
+
+    return {
+      date: movement.date,
+      type: movement.type,
+      document: movement.document,
+      quantityIn: isIn ? quantity : 0,
+      quantityOut: isIn ? 0 : quantity,
+      balance: round(balance, 4),
+      unitCost: round(unitCost),
+      averageCost: round(averageCost, 4),
+      balanceValue: round(balance * averageCost),
+    };
+  });
+};
+
+/**
+ * Balance, weighted average cost and value of a ledger at the end of the given "dd/mm/yyyy" date.
+ * Without a date the last row of the ledger is used
+ * @param {*} rows
+ * @param {*} asOf
+ */
+const kardexBalanceAsOf = (rows: KardexRow[], asOf?: string) => {
+  const limit = parseDate(asOf)?.getTime();
+  const included = limit === undefined ? rows : rows.filter((row) => (parseDate(row.date)?.getTime() ?? 0) <= limit);
+  const last = included[included.length - 1];
+
+  return {
+    balance: last?.balance ?? 0,
+    averageCost: last?.averageCost ?? 0,
+    value: last?.balanceValue ?? 0,
+  };
+};
+
+export { buildKardex, toKardexMovements, kardexBalanceAsOf };
@@ -0,0 +1,50 @@
+import { addDays } from "./date_helper";
+import { allocateFEFO, unallocatedQuantity } from "./lot_helper";
+
+const today = new Date().toLocaleDateString("es-ES");
+const inDays = (days: number) => addDays(today, days);
+
+describe("allocateFEFO", () => {
+  it("takes from the lot that expires first", () => {
+    const lots = [
+      { lot: "L2", expirationDate: inDays(60), quantity: 10 },
+      { lot: "L1", expirationDate: inDays(10), quantity: 4 },
+    ];
+
+    expect(allocateFEFO(lots, 6)).toEqual([
+      { lot: "L1", expirationDate: inDays(10), quantity: 4 },
+      { lot: "L2", expirationDate: inDays(60), quantity: 2 },
+    ]);
+  });
+
+  it("skips expired and empty lots", () => {
+    const lots = [
+      { lot: "EXPIRED", expirationDate: inDays(-1), quantity: 10 },
+      { lot: "EMPTY", expirationDate: inDays(5), quantity: 0 },
+      { lot: "VALID", expirationDate: inDays(30), quantity: 10 },
+    ];
+
+    expect(allocateFEFO(lots, 3)).toEqual([{ lot: "VALID", expirationDate: inDays(30), quantity: 3 }]);
+  });
+
+  it("still allocates a lot that expires today", () => {
+    expect(allocateFEFO([{ lot: "L1", expirationDate: today, quantity: 2 }], 2)).toEqual([
+      { lot: "L1", expirationDate: today, quantity: 2 },
+    ]);
+  });
+});
+
+describe("unallocatedQuantity", () => {
+  it("is zero when the valid lots cover the quantity", () => {
+    expect(unallocatedQuantity([{ lot: "L1", expirationDate: inDays(10), quantity: 5 }], 5)).toBe(0);
+  });
+
+  it("returns the units the valid lots don't cover", () => {
+    const lots = [
+      { lot: "EXPIRED", expirationDate: inDays(-3), quantity: 20 },
+      { lot: "L1", expirationDate: inDays(10), quantity: 4 },
+    ];
+
+    expect(unallocatedQuantity(lots, 10)).toBe(6);
+  });
+});
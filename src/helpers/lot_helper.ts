@@ -0,0 +1,41 @@
+import { daysUntil, parseDate } from "./date_helper";
+
+export interface LotAllocation {
+  lot: string;
+  expirationDate: string;
+  quantity: number;
+}
+
+/**
+ * Splits a quantity among the lots that expire first (FEFO).
+ * Expired lots are not allocated; if the valid lots don't cover it, the allocation falls short of the quantity
+ * @param {*} lots
+ * @param {*} quantity
+ */
+const allocateFEFO = (lots: LotAllocation[], quantity: number): LotAllocation[] => {
+  const sortedLots = [...lots]
+    .filter((l) => l.quantity > 0 && (daysUntil(l.expirationDate) ?? 0) >= 0)
+    .sort((a, b) => (parseDate(a.expirationDate)?.getTime() ?? Infinity) - (parseDate(b.expirationDate)?.getTime() ?? Infinity));
+
+  const allocations: LotAllocation[] = [];
+  let remaining = quantity;
+  for (const lot of sortedLots) {
+    if (remaining <= 0) break;
+    const taken = Math.min(lot.quantity, remaining);
+    allocations.push({ lot: lot.lot, expirationDate: lot.expirationDate, quantity: taken });
+    remaining -= taken;
+  }
+
+  return allocations;
+};
+
+/**
+ * Units of a quantity that the valid lots don't cover
+ * @param {*} lots
+ * @param {*} quantity
+ */
+const unallocatedQuantity = (lots: LotAllocation[], quantity: number): number => {
+  return quantity - allocateFEFO(lots, quantity).reduce((sum, allocation) => sum + allocation.quantity, 0);
+};
+
+export { allocateFEFO, unallocatedQuantity };
@@ -0,0 +1,117 @@
+export type Role = "admin" | "warehouse_keeper" | "subwarehouse_manager" | "purchasing" | "auditor";
+
+export type Permission =
+  | "inventory.view"
+  | "inventory.adjust"
+  | "products.view"
+  | "products.create"
+  | "products.update"
+  | "products.delete"
+  | "suppliers.view"
+  | "suppliers.create"
+  | "suppliers.update"
+  | "suppliers.delete"
+  | "purchase_orders.view"
+  | "purchase_orders.create"
+  | "purchase_orders.update"
+  | "incomes.view"
+  | "incomes.create"
+  | "incomes.update"
+  | "incomes.void"
+  | "outcomes.view"
+  | "outcomes.create"
+  | "outcomes.cancel"
+  | "subwarehouses.view"
+  | "subwarehouses.create"
+  | "subwarehouses.update"
+  | "subwarehouses.delete"
+  | "subwarehouses.operate"
+  | "transfers.receive"
+  | "reports.view";
+
+const VIEW_PERMISSIONS: Permission[] = [
+  "inventory.view",
+  "products.view",
+  "suppliers.view",
+  "purchase_orders.view",
+  "incomes.view",
+  "outcomes.view",
+  "subwarehouses.view",
+  "reports.view",
+];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[] | "all"> = {
+  admin: "all",
+  warehouse_keeper: [
+    ...VIEW_PERMISSIONS,
+    "inventory.adjust",
+    "products.create",
+    "products.update",
+    "incomes.create",
+    "incomes.update",
+    "incomes.void",
+    "outcomes.create",
+    "outcomes.cancel",
+    "transfers.receive",
+  ],
+  subwarehouse_manager: ["inventory.view", "products.view", "outcomes.view", "subwarehouses.view", "subwarehouses.operate", "transfers.receive"],
+  purchasing: [
+    "inventory.view",
+    "products.view",
+    "incomes.view",
+    "reports.view",
+    "suppliers.view",
+    "suppliers.create",
+    "suppliers.update",
+    "purchase_orders.view",
+    "purchase_orders.create",
+    "purchase_orders.update",
+  ],
+  auditor: VIEW_PERMISSIONS,
+};
+
+// Users without a known role only get read access until an administrator assigns one
+const DEFAULT_ROLE: Role = "auditor";
+
+/**
+ * Role of the given session user, as sent by the backend on login
+ * @param {*} user
+ */
+const getUserRole = (user: any): Role => {
+  const role = user?.data?.role || user?.role;
+  return role in ROLE_PERMISSIONS ? role : DEFAULT_ROLE;
+};
+
+/**
+ * Checks whether a role grants a permission
+ * @param {*} role
+ * @param {*} permission
+ */
+const hasPermission = (role: Role, permission: Permission): boolean => {
+  const permissions = ROLE_PERMISSIONS[role];
+  return permissions === "all" || permissions.includes(permission);
+};
+
+/**
+ * Checks whether the session user is the manager recorded on a warehouse. The manager is stored
+ * as free text, so it's compared with the user's name, username and email
+ * @param {*} user
+ * @param {*} manager
+ */
+const isWarehouseManager = (user: any, manager: string | undefined): boolean => {
+  const normalize = (value: any) => String(value || "").trim().toLowerCase();
+  if (!normalize(manager)) return false;
+
+  const data = user?.data || {};
+  const identities = [
+    user?.username,
+    user?.email,
+    data.email,
+    data.first_name,
+    `${data.first_name || ""} ${data.last_name || ""}`,
+  ].map(normalize);
+
+  return identities.includes(normalize(manager));
+};
+
+export { getUserRole, hasPermission, isWarehouseManager };
@@ -0,0 +1,18 @@
+/**
+ * Checks whether an inventory product is below its configured minimum stock
+ * @param {*} product
+ */
+const isBelowMinimum = (product: any): boolean => {
+  return !!product.minStock && product.quantity < product.minStock;
+};
+
+/**
+ * Suggested purchase quantity: the configured reorder quantity or, failing that, enough to reach the maximum
+ * @param {*} product
+ */
+const suggestedPurchaseQuantity = (product: any): number => {
+  if (product.reorderQuantity) return Math.max(product.reorderQuantity, product.minStock - product.quantity);
+  return Math.max((product.maxStock || product.minStock) - product.quantity, 0);
+};
+
+export { isBelowMinimum, suggestedPurchaseQuantity };
@@ -0,0 +1,37 @@
+import { APIClient } from "../api_helper";
+import { StorageAdapter } from "./storage_adapter";
+
+const axiosHelper = new APIClient();
+const apiUrl = process.env.REACT_APP_API_URL;
+
+const googleDriveAdapter: StorageAdapter = {
+  upload: async (file, folders) => {
+    const folderResponse = await axiosHelper.create(`${apiUrl}/google_drive/create_folders`, folders);
+    const folderId = folderResponse.data.data;
+
+    const uploadResponse = await axiosHelper.uploadImage(`${apiUrl}/google_drive/upload_file/${folderId}`, file);
+    return uploadResponse.data.data;
+  },
+
+  download: async (fileId) => {
+    const response = await axiosHelper.get(`${apiUrl}/google_drive/download_file/${fileId}`, { responseType: 'blob' });
+    return response.data;
+  },
+
+  getThumbnail: async (fileId, size) => {
+    const response = await axiosHelper.get(`${apiUrl}/google_drive/download_thumbnail/${fileId}`, { size, responseType: 'blob' });
+    return response.data;
+  },
+
+  delete: async (fileId) => {
+    await axiosHelper.delete(`${apiUrl}/google_drive/delete_file/${fileId}`);
+  },
+
+  // Drive has no signed URLs, the file is served through the backend as a local blob URL
+  getSignedUrl: async (fileId) => {
+    const blob = await googleDriveAdapter.download(fileId);
+    return URL.createObjectURL(blob);
+  },
+};
+
+export default googleDriveAdapter;
@@ -0,0 +1,14 @@
+import googleDriveAdapter from "./google_drive_adapter";
+import s3Adapter from "./s3_adapter";
+import { StorageAdapter } from "./storage_adapter";
+
+const adapters: Record<string, StorageAdapter> = {
+  google_drive: googleDriveAdapter,
+  s3: s3Adapter,
+};
+
+// REACT_APP_STORAGE_PROVIDER selects the file backend: "google_drive" (default) or "s3" (S3, MinIO or local filesystem)
+const storageService: StorageAdapter = adapters[process.env.REACT_APP_STORAGE_PROVIDER || "google_drive"] || googleDriveAdapter;
+
+export type { StorageAdapter };
+export { storageService };
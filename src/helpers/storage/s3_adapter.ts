@@ -0,0 +1,57 @@
+import { APIClient } from "../api_helper";
+import { StorageAdapter } from "./storage_adapter";
+
+const axiosHelper = new APIClient();
+const apiUrl = process.env.REACT_APP_API_URL;
+
+/**
+ * Adapter for S3-compatible storage (AWS S3, MinIO) or the backend's local filesystem store.
+ * The backend only signs the URLs; file contents travel directly between the browser and the bucket.
+ * fetch is used instead of axios so the API Authorization header is not sent to the bucket
+ */
+const s3Adapter: StorageAdapter = {
+  upload: async (file, folders) => {
+    const response = await axiosHelper.create(`${apiUrl}/storage/presigned_upload`, {
+      fileName: file.name,
+      contentType: file.type,
+      folders,
+    });
+    const { fileId, uploadUrl } = response.data.data;
+
+    const upload = await fetch(uploadUrl, {
+      method: 'PUT',
+      body: file,
+      headers: { 'Content-Type': file.type },
+    });
+    if (!upload.ok) throw new Error(`Error al subir el archivo: ${upload.status}`);
+
+    return fileId;
+  },
+
+  download: async (fileId) => {
+    const url = await s3Adapter.getSignedUrl(fileId);
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Error al descargar el archivo: ${response.status}`);
+
+    return response.blob();
+  },
+
+  getThumbnail: async (fileId, size) => {
+    const signed = await axiosHelper.get(`${apiUrl}/storage/thumbnail_url/${fileId}`, { size });
+    const response = await fetch(signed.data.data);
+    if (!response.ok) throw new Error(`Error al descargar la miniatura: ${response.status}`);
+
+    return response.blob();
+  },
+
+  delete: async (fileId) => {
+    await axiosHelper.delete(`${apiUrl}/storage/delete_file/${fileId}`);
+  },
+
+  getSignedUrl: async (fileId, expiresIn = 3600) => {
+    const response = await axiosHelper.get(`${apiUrl}/storage/signed_url/${fileId}`, { expiresIn });
+    return response.data.data;
+  },
+};
+
+export default s3Adapter;
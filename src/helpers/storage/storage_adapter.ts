@@ -0,0 +1,11 @@
+/**
+ * Operations every file storage backend must support.
+ * Files are always referenced by the id returned from upload
+ */
+export interface StorageAdapter {
+  upload: (file: File, folders: string[]) => Promise<string>;
+  download: (fileId: string) => Promise<Blob>;
+  getThumbnail: (fileId: string, size: number) => Promise<Blob>; // Reduced image whose longest side is at most size pixels
+  delete: (fileId: string) => Promise<void>;
+  getSignedUrl: (fileId: string, expiresIn?: number) => Promise<string>;
+}
@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+import { decodeTableView, encodeTableView, isActiveCondition, matchesCondition, sortRows, TableView } from "./table_helper";
+
+describe("sortRows", () => {
+  const rows = [
+    { id: "A", date: "10/02/2024", total: 20 },
+    { id: "B", date: "", total: 5 },
+    { id: "C", date: "01/12/2023", total: 20 },
+    { id: "D", date: "15/01/2024", total: undefined },
+  ];
+
+  it("sorts dd/mm/yyyy dates chronologically", () => {
+    expect(sortRows(rows, "date", "asc").map((row) => row.id)).toEqual(["C", "D", "A", "B"]);
+    expect(sortRows(rows, "date", "desc").map((row) => row.id)).toEqual(["A", "D", "C", "B"]);
+  });
+
+  it("keeps empty values last and ties in their original order", () => {
+    expect(sortRows(rows, "total", "desc").map((row) => row.id)).toEqual(["A", "C", "B", "D"]);
+  });
+
+  it("compares text with numeric collation", () => {
+    const codes = [{ id: "P10" }, { id: "p2" }, { id: "P1" }];
+    expect(sortRows(codes, "id", "asc").map((row) => row.id)).toEqual(["P1", "p2", "P10"]);
+  });
+});
+
+describe("matchesCondition", () => {
+  it("filters dates with inclusive bounds", () => {
+    const condition = { field: "date", type: "date" as const, from: "01/03/2024", to: "31/03/2024" };
+
+    expect(matchesCondition("01/03/2024", condition)).toBe(true);
+    expect(matchesCondition("31/03/2024", condition)).toBe(true);
+    expect(matchesCondition("01/04/2024", condition)).toBe(false);
+    expect(matchesCondition("", condition)).toBe(false);
+  });
+
+  it("filters numbers with open bounds", () => {
+    const condition = { field: "total", type: "number" as const, from: "10", to: "" };
+
+    expect(matchesCondition(10, condition)).toBe(true);
+    expect(matchesCondition("9.99", condition)).toBe(false);
+    expect(matchesCondition("n/a", condition)).toBe(false);
+  });
+
+  it("lets every row through until the condition has a bound or value", () => {
+    const empty = { field: "total", type: "number" as const, from: "", to: "" };
+
+    expect(isActiveCondition(empty)).toBe(false);
+    expect(matchesCondition("n/a", empty)).toBe(true);
+    expect(matchesCondition("x", { field: "type", type: "options", values: [] })).toBe(true);
+    expect(matchesCondition("x", { field: "type", type: "options", values: ["y"] })).toBe(false);
+  });
+});
+
+describe("decodeTableView", () => {
+  const view: TableView = {
+    name: "Recepciones de marzo",
+    filterText: "año",
+    selectedFilter: "id",
+    conditions: [{ field: "date", type: "date", from: "01/03/2024" }],
+    sort: { column: "date", order: "desc" },
+    hiddenColumns: ["tax"],
+    rowsPerPage: 25,
+  };
+
+  it("restores a view encoded for a link, accented text included", () => {
+    expect(decodeTableView(encodeTableView(view))).toEqual(view);
+  });
+
+  it("returns null for missing or invalid values", () => {
+    expect(decodeTableView(null)).toBeNull();
+    expect(decodeTableView("not-a-view")).toBeNull();
+    expect(decodeTableView(encodeTableView({ ...view, name: undefined } as any))).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import { parseDate } from "./date_helper";
+
+export type FilterType = "date" | "number" | "options";
+
+export interface FilterCondition {
+  field: string;
+  type: FilterType;
+  from?: string; // A "dd/mm/yyyy" date or a number, depending on the type
+  to?: string;
+  values?: string[]; // Selected values of a column with options
+}
+
+export interface TableViewState {
+  filterText: string;
+  selectedFilter: string;
+  conditions: FilterCondition[];
+  sort: { column: string; order: "asc" | "desc" };
+  hiddenColumns: string[];
+  columnOrder?: string[];
+  pinFirstColumn?: boolean;
+  rowsPerPage: number;
+}
+
+export interface TableLayout {
+  columnOrder: string[];
+  hiddenColumns: string[];
+  pinFirstColumn: boolean;
+}
+
+export interface TableView extends TableViewState {
+  name: string;
+}
+
+const DATE_PATTERN = /^\d{1,2}[/-]\d{1,2}[/-]\d{4}$/;
+
+const isEmpty = (value: any) => value === undefined || value === null || value === "";
+
+/**
+ * Compares two cell values according to their type: numbers, "dd/mm/yyyy" dates,
+ * booleans and, for anything else, text in Spanish collation. Empty values always go last
+ * @param {*} a
+ * @param {*} b
+ */
+const compareValues = (a: any, b: any): number => {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) ? (isEmpty(b) ? 0 : 1) : -1;
+
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+
+  if (typeof a === "string" && typeof b === "string" && DATE_PATTERN.test(a) && DATE_PATTERN.test(b)) {
+    return (parseDate(a)?.getTime() ?? 0) - (parseDate(b)?.getTime() ?? 0);
+  }
+
+  return String(a).localeCompare(String(b), "es", { numeric: true, sensitivity: "base" });
+};
+
+/**
+ * Sorts a copy of the rows by the given field. Empty values stay last in both directions
+ * and the original order is kept between equal values
+ * @param {*} rows
+ * @param {*} field
+ * @param {*} order
+ */
+const sortRows = <T,>(rows: T[], field: keyof T, order: "asc" | "desc"): T[] => {
+  const direction = order === "asc" ? 1 : -1;
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => {
+      const emptyA = isEmpty(a.row[field]);
+      const emptyB = isEmpty(b.row[field]);
+      if (emptyA || emptyB) return Number(emptyA) - Number(emptyB) || a.index - b.index;
+      return direction * compareValues(a.row[field], b.row[field]) || a.index - b.index;
+    })
+    .map(({ row }) => row);
+};
+
+/**
+ * Checks a row value against a filter condition. Bounds are inclusive and an empty bound doesn't restrict
+ * @param {*} value
+ * @param {*} condition
+ */
+const matchesCondition = (value: any, condition: FilterCondition): boolean => {
+  if (condition.type === "options") {
+    return !condition.values?.length || condition.values.includes(String(value));
+  }
+
+  if (condition.type === "date") {
+    const time = parseDate(value)?.getTime();
+    const from = parseDate(condition.from)?.getTime();
+    const to = parseDate(condition.to)?.getTime();
+    if (from === undefined && to === undefined) return true;
+    if (time === undefined) return false;
+    return (from === undefined || time >= from) && (to === undefined || time <= to);
+  }
+
+  const number = parseFloat(value);
+  const min = isEmpty(condition.from) ? undefined : parseFloat(condition.from as string);
+  const max = isEmpty(condition.to) ? undefined : parseFloat(condition.to as string);
+  if (min === undefined && max === undefined) return true;
+  if (isNaN(number)) return false;
+  return (min === undefined || number >= min) && (max === undefined || number <= max);
+};
+
+/**
+ * A condition restricts the rows only once it has a bound or a selected value
+ * @param {*} condition
+ */
+const isActiveCondition = (condition: FilterCondition) =>
+  condition.type === "options" ? !!condition.values?.length : !isEmpty(condition.from) || !isEmpty(condition.to);
+
+/**
+ * Encodes a table view as URL-safe base64 so it can be shared in a link
+ * @param {*} view
+ */
+const encodeTableView = (view: TableView): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(view));
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+/**
+ * Decodes a view shared in a link. Returns null when the value isn't a valid view
+ * @param {*} value
+ */
+const decodeTableView = (value: string | null): TableView | null => {
+  if (!value) return null;
+
+  try {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    const view = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0))));
+    return view && typeof view.name === "string" ? view : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const layoutKey = (tableId: string) => `tableLayout:${tableId}`;
+
+/**
+ * Reads the column layout saved in this browser for a table. Returns null when there is none
+ * @param {*} tableId
+ */
+const loadTableLayout = (tableId: string): TableLayout | null => {
+  try {
+    const saved = localStorage.getItem(layoutKey(tableId));
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Saves the column layout of a table in this browser
+ * @param {*} tableId
+ * @param {*} layout
+ */
+const saveTableLayout = (tableId: string, layout: TableLayout) => {
+  localStorage.setItem(layoutKey(tableId), JSON.stringify(layout));
+};
+
+/**
+ * Sorts the columns following a saved order. Columns missing from the order (e.g. added after
+ * the layout was saved) keep their default position at the end, and unknown accessors are ignored
+ * @param {*} columns
+ * @param {*} order
+ */
+const orderColumns = <C extends { accessor: any },>(columns: C[], order: string[] = []): C[] => {
+  const position = (column: C) => {
+    const index = order.indexOf(String(column.accessor));
+    return index === -1 ? order.length + columns.indexOf(column) : index;
+  };
+  return [...columns].sort((a, b) => position(a) - position(b));
+};
+
+export {
+  compareValues,
+  sortRows,
+  matchesCondition,
+  isActiveCondition,
+  encodeTableView,
+  decodeTableView,
+  loadTableLayout,
+  saveTableLayout,
+  orderColumns,
+};
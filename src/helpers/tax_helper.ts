@@ -0,0 +1,56 @@
+export const DEFAULT_TAX_RATE = 0.18;
+
+export const taxRateOptions = [
+  { label: "ITBIS 18%", value: 0.18 },
+  { label: "ITBIS 16%", value: 0.16 },
+  { label: "Exento", value: 0 },
+];
+
+interface TaxableLine {
+  quantity: number;
+  price: number;
+  taxRate?: number;
+}
+
+export interface TaxSummary {
+  subtotal: number;
+  tax: number;
+  total: number;
+  breakdown: Array<{ rate: number; base: number; tax: number }>;
+}
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+/**
+ * Calculates subtotal, tax and total of a list of lines, grouping the tax by rate.
+ * Lines without a rate use the default ITBIS rate
+ * @param {*} lines
+ */
+const calculateTaxes = (lines: Array<TaxableLine>): TaxSummary => {
+  const breakdown: Record<number, { rate: number; base: number; tax: number }> = {};
+
+  lines.forEach((line) => {
+    const rate = line.taxRate ?? DEFAULT_TAX_RATE;
+    const base = line.quantity * line.price || 0;
+
+    if (!breakdown[rate]) breakdown[rate] = { rate, base: 0, tax: 0 };
+    breakdown[rate].base += base;
+    breakdown[rate].tax += base * rate;
+  });
+
+  const groups = Object.values(breakdown).map((group) => ({ rate: group.rate, base: round(group.base), tax: round(group.tax) }));
+  const subtotal = round(groups.reduce((sum, group) => sum + group.base, 0));
+  const tax = round(groups.reduce((sum, group) => sum + group.tax, 0));
+
+  return { subtotal, tax, total: round(subtotal + tax), breakdown: groups };
+};
+
+/**
+ * Label of a tax rate ("ITBIS 18%", "Exento")
+ * @param {*} rate
+ */
+const taxRateLabel = (rate: number) => {
+  return taxRateOptions.find((option) => option.value === rate)?.label || `ITBIS ${round(rate * 100)}%`;
+};
+
+export { calculateTaxes, taxRateLabel };
@@ -0,0 +1,22 @@
+// Subwarehouses created before general warehouses could be selected have no parentWarehouse,
+// they all belong to the original general warehouse
+export const DEFAULT_PARENT_WAREHOUSE = "AG001";
+
+/**
+ * General warehouse a subwarehouse belongs to
+ * @param {*} subwarehouse
+ */
+const parentWarehouseOf = (subwarehouse: { parentWarehouse?: string }): string => {
+  return subwarehouse.parentWarehouse || DEFAULT_PARENT_WAREHOUSE;
+};
+
+/**
+ * Checks whether a warehouse is a subwarehouse of the given general warehouse
+ * @param {*} warehouse
+ * @param {*} warehouseId
+ */
+const isSubwarehouseOf = (warehouse: { isSubwarehouse?: boolean; parentWarehouse?: string }, warehouseId: string): boolean => {
+  return !!warehouse.isSubwarehouse && parentWarehouseOf(warehouse) === warehouseId;
+};
+
+export { parentWarehouseOf, isSubwarehouseOf };
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Col, Container, Row } from 'reactstrap';
+
+const Error403 = () => {
+    document.title = "Acceso denegado | Almacén";
+    return (
+        <React.Fragment>
+            <div className="auth-page-wrapper py-5 d-flex justify-content-center align-items-center min-vh-100">
+                <div className="auth-page-content overflow-hidden p-0">
+                    <Container fluid={true}>
+                        <Row className="justify-content-center">
+                            <Col xl={4} className="text-center">
+                                <div className="position-relative">
+                                    <i className="ri-lock-line display-1 text-danger"></i>
+                                    <h1 className="title text-muted">403</h1>
+                                </div>
+                                <div>
+                                    <h4>Acceso denegado</h4>
+                                    <p className="text-muted w-75 mx-auto">Su rol no tiene permiso para acceder a esta sección. Si lo necesita, solicítelo a un administrador.</p>
+                                    <Link to="/home" className="btn btn-success"><i className="mdi mdi-home me-1"></i>Volver al inicio</Link>
+                                </div>
+                            </Col>
+                        </Row>
+                    </Container>
+                </div>
+            </div>
+        </React.Fragment>
+    );
+};
+
+export default Error403;
@@ -2,7 +2,7 @@ import BreadCrumb from "Components/Common/BreadCrumb"
 import IncomeForm, { IncomeData } from "Components/Common/IncomeForm"
 import { APIClient } from "helpers/api_helper"
 import { useState } from "react"
-import { useNavigate } from "react-router-dom"
+import { useNavigate, useSearchParams } from "react-router-dom"
 import { Alert, Card, CardBody, Container } from "reactstrap"
 
 
@@ -12,6 +12,8 @@ const CreatIncome = () => {
     const apiUrl = process.env.REACT_APP_API_URL;
     const axiosHelper = new APIClient()
     const history = useNavigate();
+    const [searchParams] = useSearchParams();
+    const purchaseOrderId = searchParams.get('purchase_order') || undefined;
 
     const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
 
@@ -28,7 +30,9 @@ const CreatIncome = () => {
         }, 5000);
     }
 
-    const handleCreateIncome = async (data: any) => {
+    // Si la entrada lleva purchaseOrder, el servidor suma las cantidades recibidas a la orden
+    // y actualiza su estado en la misma operación en que registra la entrada
+    const handleCreateIncome = async (data: IncomeData) => {
         await axiosHelper.create(`${apiUrl}/incomes/create_income`, data)
             .then((response) => {
                 showAlert('success', 'Entrada creada con éxito')
@@ -54,7 +58,7 @@ const CreatIncome = () => {
 
                 <Card className="rounded">
                     <CardBody>
-                        <IncomeForm onSubmit={handleCreateIncome} onCancel={handleCancel}></IncomeForm>
+                        <IncomeForm onSubmit={handleCreateIncome} onCancel={handleCancel} purchaseOrderId={purchaseOrderId}></IncomeForm>
                     </CardBody>
                 </Card>
 
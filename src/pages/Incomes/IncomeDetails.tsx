@@ -1,11 +1,17 @@
 import BreadCrumb from "Components/Common/BreadCrumb"
 import CustomTable from "Components/Common/CustomTable"
-import { IncomeData } from "Components/Common/IncomeForm"
+import IncomeForm, { IncomeData, IncomeVersion, diffIncomes, documentsFolders, findUnavailableStock, quantityChanges } from "Components/Common/IncomeForm"
+import DocumentsField from "Components/Common/DocumentsField"
 import ObjectDetails from "Components/Common/ObjectDetails"
+import { OutcomeData } from "Components/Common/OutcomeForm"
+import ReasonForm from "Components/Common/ReasonForm"
 import { APIClient } from "helpers/api_helper"
+import { storageService } from "helpers/storage"
+import { DEFAULT_TAX_RATE, calculateTaxes, taxRateLabel } from "helpers/tax_helper"
 import { useEffect, useState } from "react"
 import { useNavigate, useParams } from "react-router-dom"
-import { Alert, Button, Card, CardBody, CardHeader, Col, Container, Row } from "reactstrap"
+import { Alert, Badge, Button, Card, CardBody, CardHeader, Col, Container, ListGroup, ListGroupItem, Modal, ModalBody, ModalFooter, ModalHeader, Row, Spinner, Table } from "reactstrap"
+import { usePermissions } from "Components/Hooks/PermissionHooks"
 
 const incomeAttributes = [
     { key: 'id', label: 'Identificador' },
@@ -13,12 +19,14 @@ const incomeAttributes = [
     { key: 'date', label: 'Fecha' },
     { key: 'origin.id', label: '' },
     { key: 'totalPrice', label: 'Precio Total' },
-    { key: 'incomeType', label: 'Tipo de alta' }
+    { key: 'incomeType', label: 'Tipo de alta' },
+    { key: 'purchaseOrder', label: 'Orden de compra' }
 ]
 
 
 
 const IncomeDetails = () => {
+    const { can } = usePermissions();
     document.title = 'Detalles de entrada'
     const axiosHelper = new APIClient();
     const history = useNavigate();
@@ -26,10 +34,18 @@ const IncomeDetails = () => {
     const { id_income } = useParams();
 
     const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
-    const [modals, setModals] = useState({ update: false, delete: false });
+    const [modals, setModals] = useState({ update: false, delete: false, documents: false, void: false, correction: false });
     const [incomeDetails, setIncomeDetails] = useState<IncomeData>()
     const [incomeDisplay, setIncomeDisplay] = useState({})
     const [productsIncome, setProductsIncome] = useState([])
+    const [incomeReturns, setIncomeReturns] = useState<any[]>([])
+    const [documentFiles, setDocumentFiles] = useState<Array<{ id: string; url: string; type: string }>>([])
+    const [selectedDocument, setSelectedDocument] = useState<string>('')
+    const [editedDocuments, setEditedDocuments] = useState<string[]>([])
+    const [uploadingDocuments, setUploadingDocuments] = useState<boolean>(false)
+    const [incomeVersions, setIncomeVersions] = useState<IncomeVersion[]>([])
+    const [pendingCorrection, setPendingCorrection] = useState<IncomeData>()
+    const [unavailableStock, setUnavailableStock] = useState<Array<{ id: string; required: number; available: number }>>([])
 
     const productColumns = [
         { header: 'Código', accessor: 'id', isFilterable: true },
@@ -49,6 +65,11 @@ const IncomeDetails = () => {
               ]
          },
         { header: 'Precio Unitario', accessor: 'price' },
+        {
+            header: 'ITBIS',
+            accessor: 'taxRate',
+            render: (value: any, row: any) => taxRateLabel(incomeDetails?.products.find((p) => p.id === row.id)?.taxRate ?? DEFAULT_TAX_RATE)
+        },
         { header: 'Categoría', accessor: 'category', isFilterable: true,
             options: [
                 { label: 'Alimentos', value: 'Alimentos' },
@@ -71,12 +92,40 @@ const IncomeDetails = () => {
         },
     ]
 
+    const returnsColumns = [
+        { header: 'Identificador', accessor: 'id' },
+        { header: 'Fecha de devolución', accessor: 'date' },
+        {
+            header: "Acciones",
+            accessor: "action",
+            render: (value: any, row: any) => (
+                <div className="d-flex gap-1">
+                    <Button className="btn-secondary btn-icon" onClick={() => handleClicReturnDetails(row)}>
+                        <i className="ri-eye-fill align-middle"></i>
+                    </Button>
+                </div>
+            ),
+        },
+    ]
+
+    // Las entradas anteriores al modelo de impuestos solo guardan el total con ITBIS del 18% incluido
+    const taxSummary = incomeDetails
+        ? incomeDetails.tax !== undefined
+            ? { ...calculateTaxes(incomeDetails.products), subtotal: incomeDetails.subtotal, tax: incomeDetails.tax, total: incomeDetails.totalPrice }
+            : calculateTaxes(incomeDetails.products.map((p) => ({ ...p, taxRate: DEFAULT_TAX_RATE })))
+        : undefined
+
     const handleError = (error: any, message: string) => {
         console.error(message, error);
         setAlertConfig({ visible: true, color: "danger", message });
         setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
     };
 
+    const showAlert = (color: string, message: string) => {
+        setAlertConfig({ visible: true, color: color, message: message })
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    }
+
     const toggleModal = (modalName: keyof typeof modals, state?: boolean) => {
         setModals((prev) => ({ ...prev, [modalName]: state ?? !prev[modalName] }));
     };
@@ -123,6 +172,155 @@ const IncomeDetails = () => {
         }
     }
 
+    const handleFetchIncomeReturns = async () => {
+        await axiosHelper.get(`${apiUrl}/outcomes/find_outcomes/relatedIncome/${id_income}/true`)
+            .then((response) => {
+                setIncomeReturns(response.data.data)
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener las devoluciones de la entrada, intentelo más tarde');
+            })
+    }
+
+    const handleFetchDocuments = async () => {
+        const files: Array<{ id: string; url: string; type: string }> = [];
+
+        for (const documentId of incomeDetails?.documents || []) {
+            await storageService.download(documentId)
+                .then((blob) => {
+                    files.push({ id: documentId, url: URL.createObjectURL(blob), type: blob.type })
+                })
+                .catch((error) => {
+                    handleError(error, 'Ha ocurrido un error al obtener los documentos de la entrada, intentelo más tarde');
+                })
+        }
+
+        setDocumentFiles(files)
+        setSelectedDocument(files[0]?.id || '')
+    }
+
+    const handleDownloadDocument = (file: { id: string; url: string; type: string }) => {
+        const extension = file.type === 'application/pdf' ? 'pdf' : file.type.split('/')[1] || 'bin';
+        const link = document.createElement('a');
+        link.href = file.url;
+        link.download = `${id_income}_${file.id}.${extension}`;
+        link.click();
+    }
+
+    const handleOpenDocumentsModal = () => {
+        setEditedDocuments(incomeDetails?.documents || [])
+        toggleModal('documents', true)
+    }
+
+    // Cambiar los documentos también es una corrección: queda en el historial de versiones con su motivo
+    const handleUpdateDocuments = () => {
+        if (!incomeDetails) return;
+        setPendingCorrection({ ...incomeDetails, documents: editedDocuments })
+        toggleModal('documents', false)
+        toggleModal('correction', true)
+    }
+
+    const handleFetchVersions = async () => {
+        await axiosHelper.get(`${apiUrl}/incomes/find_income_versions/${id_income}`)
+            .then((response) => {
+                setIncomeVersions(response.data.data)
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener el historial de correcciones, intentelo más tarde');
+            })
+    }
+
+    const handleRefreshIncome = () => {
+        handleFetchIncome();
+        handleFetchIncomeDisplay();
+        handleFetchVersions();
+    }
+
+    // Las cantidades que se retiran del almacén deben seguir en existencia, si no el stock ya se transfirió o consumió
+    const handleCheckStock = async (changes: Array<{ id: string; quantity: number }>) => {
+        try {
+            const response = await axiosHelper.get(`${apiUrl}/warehouse/get_inventory/${incomeDetails?.warehouse}`)
+            return findUnavailableStock(changes, response.data.data)
+        } catch (error) {
+            handleError(error, 'No se pudo comprobar la existencia de los productos, intentelo más tarde')
+            return null
+        }
+    }
+
+    // Lo devuelto al proveedor ya salió del almacén con su devolución, al anular solo se retira lo que queda de la entrada
+    const voidChanges = (income: IncomeData) => {
+        const returnedProducts = incomeReturns.flatMap((outcome: OutcomeData) => outcome.products);
+        return quantityChanges(income.products, returnedProducts);
+    }
+
+    const handleOpenVoidModal = async () => {
+        if (!incomeDetails) return;
+
+        const unavailable = await handleCheckStock(voidChanges(incomeDetails))
+        if (!unavailable) return;
+
+        setUnavailableStock(unavailable)
+        toggleModal('void', true)
+    }
+
+    const handleVoidIncome = async (reason: string) => {
+        if (!incomeDetails) return;
+
+        const changes = voidChanges(incomeDetails);
+
+        // Se envían las cantidades a retirar para que el servidor no revierta de nuevo lo ya devuelto.
+        // El servidor también descuenta esas cantidades de la orden de compra asociada
+        await axiosHelper.put(`${apiUrl}/incomes/void_income/${incomeDetails.id}`, { reason, products: changes.map((change) => ({ id: change.id, quantity: -change.quantity })) })
+            .then(() => {
+                handleRefreshIncome()
+                showAlert('success', 'Entrada anulada con éxito')
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al anular la entrada, intentelo más tarde')
+            })
+            .finally(() => {
+                toggleModal('void', false)
+            })
+    }
+
+    const handleSubmitCorrection = async (data: IncomeData) => {
+        if (!incomeDetails) return;
+
+        const unavailable = await handleCheckStock(quantityChanges(incomeDetails.products, data.products))
+        if (!unavailable) return;
+
+        if (unavailable.length > 0) {
+            handleError(unavailable, `No se puede corregir la entrada, ya no hay existencia suficiente de: ${unavailable.map((p) => p.id).join(', ')}`)
+            return;
+        }
+
+        setPendingCorrection(data)
+        toggleModal('update', false)
+        toggleModal('correction', true)
+    }
+
+    // El servidor ajusta la orden de compra asociada a las nuevas cantidades al guardar la corrección
+    const handleCorrectIncome = async (reason: string) => {
+        if (!incomeDetails || !pendingCorrection) return;
+
+        await axiosHelper.put(`${apiUrl}/incomes/correct_income/${incomeDetails.id}`, { income: pendingCorrection, reason })
+            .then(() => {
+                handleRefreshIncome()
+                showAlert('success', 'Corrección registrada con éxito')
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al corregir la entrada, intentelo más tarde')
+            })
+            .finally(() => {
+                toggleModal('correction', false)
+                setPendingCorrection(undefined)
+            })
+    }
+
+    const handleClicReturnDetails = (row: any) => {
+        history(`/warehouse/outcomes/outcome_details/${row.id}`)
+    }
+
     const handleClicProductDetails = (row: any) => {
         history(`/warehouse/inventory/product_details?warehouse=${incomeDetails?.warehouse}&product=${row.id}`)
     }
@@ -138,12 +336,20 @@ const IncomeDetails = () => {
     useEffect(() => {
         handleFetchIncome();
         handleFetchIncomeDisplay();
+        handleFetchIncomeReturns();
+        handleFetchVersions();
     }, [])
 
     useEffect(() => {
         handleFetchIncomeProducts();
+        handleFetchDocuments();
     }, [incomeDetails])
 
+    // Libera las URLs de los documentos anteriores al recargarlos y al salir de la página
+    useEffect(() => {
+        return () => documentFiles.forEach((file) => URL.revokeObjectURL(file.url));
+    }, [documentFiles])
+
 
 
     return (
@@ -155,13 +361,35 @@ const IncomeDetails = () => {
                     <Button className="me-auto" color="secondary" onClick={handleBack}>
                         <i className="ri-arrow-left-line me-3"></i>Regresar
                     </Button>
+
+                    {incomeDetails?.status && (
+                        <>
+                            <Button color="primary" onClick={() => toggleModal('update')} disabled={!can('incomes.update')}>
+                                <i className="ri-pencil-line me-2"></i>
+                                Corregir
+                            </Button>
+                            <Button color="danger" onClick={handleOpenVoidModal} disabled={!can('incomes.void')}>
+                                <i className="ri-close-circle-line me-2"></i>
+                                Anular
+                            </Button>
+                        </>
+                    )}
                 </div>
 
+                {incomeDetails && !incomeDetails.status && (
+                    <Alert color="danger">
+                        <i className="ri-error-warning-line me-2"></i>
+                        Esta entrada fue anulada{incomeDetails.voidDate ? ` el ${incomeDetails.voidDate}` : ''}. Motivo: {incomeDetails.voidReason || 'No disponible'}
+                    </Alert>
+                )}
+
                 <Row className="d-flex" style={{ alignItems: 'stretch', height: '60vh   ' }}>
                     <Col lg={4} className="d-flex">
                         <Card className="w-100 h-100">
-                            <CardHeader>
-                                <h4>Detalles</h4>
+                            <CardHeader className="d-flex">
+                                <h4 className="me-auto">Detalles</h4>
+                                {incomeDetails && !incomeDetails.status && <Badge color="danger" className="fs-6">Anulada</Badge>}
+                                {incomeDetails?.status && (incomeDetails.version || 1) > 1 && <Badge color="info" className="fs-6">Versión {incomeDetails.version}</Badge>}
                             </CardHeader>
                             <CardBody>
                                 {incomeDetails && (
@@ -177,26 +405,224 @@ const IncomeDetails = () => {
                                 <h4>Productos</h4>
                             </CardHeader>
                             <CardBody>
-                                <CustomTable columns={productColumns} data={productsIncome} rowClickable={false} defaultFilterField='name'/>
+                                <CustomTable columns={productColumns} data={productsIncome} rowClickable={false} defaultFilterField='name' tableId='income_products'/>
                             </CardBody>
                         </Card>
                     </Col>
                 </Row>
 
+                {taxSummary && (
+                    <Card className="mt-4">
+                        <CardHeader>
+                            <h4>Desglose de impuestos</h4>
+                        </CardHeader>
+                        <CardBody>
+                            <Table className="align-middle mb-0" bordered>
+                                <thead className="table-light">
+                                    <tr>
+                                        <th>Tasa</th>
+                                        <th>Base imponible</th>
+                                        <th>Impuesto</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {taxSummary.breakdown.map((group) => (
+                                        <tr key={group.rate}>
+                                            <td>{taxRateLabel(group.rate)}</td>
+                                            <td>${group.base.toFixed(2)}</td>
+                                            <td>${group.tax.toFixed(2)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                                <tfoot>
+                                    <tr>
+                                        <th colSpan={2} className="text-end">Subtotal</th>
+                                        <td>${taxSummary.subtotal.toFixed(2)}</td>
+                                    </tr>
+                                    <tr>
+                                        <th colSpan={2} className="text-end">ITBIS</th>
+                                        <td>${taxSummary.tax.toFixed(2)}</td>
+                                    </tr>
+                                    <tr>
+                                        <th colSpan={2} className="text-end">Total</th>
+                                        <td className="fw-semibold">${taxSummary.total.toFixed(2)}</td>
+                                    </tr>
+                                </tfoot>
+                            </Table>
+                        </CardBody>
+                    </Card>
+                )}
+
+                {incomeReturns.length > 0 && (
+                    <Card className="mt-4">
+                        <CardHeader>
+                            <h4>Devoluciones a proveedor</h4>
+                        </CardHeader>
+                        <CardBody>
+                            <CustomTable columns={returnsColumns} data={incomeReturns} showSearchAndFilter={false} rowsPerPage={5} />
+                        </CardBody>
+                    </Card>
+                )}
+
+                {incomeVersions.length > 1 && (
+                    <Card className="mt-4">
+                        <CardHeader>
+                            <h4>Historial de correcciones</h4>
+                        </CardHeader>
+                        <CardBody>
+                            {incomeVersions.slice(1).reverse().map((version) => {
+                                const previous = incomeVersions.find((v) => v.version === version.version - 1);
+                                const changes = previous ? diffIncomes(previous.data, version.data) : [];
+
+                                return (
+                                    <div key={version.version} className="mb-4">
+                                        <h5>Versión {version.version} <small className="text-muted">- {version.date}</small></h5>
+                                        <p className="text-muted mb-2">Motivo: {version.reason}</p>
+                                        <Table className="align-middle mb-0" size="sm" bordered>
+                                            <thead className="table-light">
+                                                <tr>
+                                                    <th>Campo</th>
+                                                    <th>Antes</th>
+                                                    <th>Después</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {changes.length > 0 ? (
+                                                    changes.map((change) => (
+                                                        <tr key={change.field}>
+                                                            <td>{change.field}</td>
+                                                            <td className="text-danger">{change.before}</td>
+                                                            <td className="text-success">{change.after}</td>
+                                                        </tr>
+                                                    ))
+                                                ) : (
+                                                    <tr>
+                                                        <td colSpan={3} className="text-center">Sin cambios en los datos</td>
+                                                    </tr>
+                                                )}
+                                            </tbody>
+                                        </Table>
+                                    </div>
+                                );
+                            })}
+                        </CardBody>
+                    </Card>
+                )}
+
                 {/* Tarjeta de abajo se empuja hacia abajo */}
                 <Card className="mt-4">
-                    <CardHeader className="d-flex">
-                        <h4>Archivos Adjuntos</h4>
-                        <Button className="ms-auto">
+                    <CardHeader className="d-flex gap-2">
+                        <h4 className="me-auto">Archivos Adjuntos</h4>
+                        <Button color="primary" onClick={handleOpenDocumentsModal} disabled={!incomeDetails?.status || !can('incomes.update')}>
+                            <i className="ri-attachment-2 me-2"></i>
+                            Modificar Documentos
+                        </Button>
+                        <Button onClick={() => documentFiles.forEach(handleDownloadDocument)} disabled={documentFiles.length === 0}>
                             <i className="ri-download-line me-2"></i>
                             Descargar Archivos
                         </Button>
                     </CardHeader>
                     <CardBody>
-                        No hay archivos adjuntos
+                        {documentFiles.length > 0 ? (
+                            <Row>
+                                <Col lg={3}>
+                                    <ListGroup>
+                                        {documentFiles.map((file, index) => (
+                                            <ListGroupItem
+                                                key={file.id}
+                                                tag="button"
+                                                action
+                                                active={selectedDocument === file.id}
+                                                className="d-flex align-items-center"
+                                                onClick={() => setSelectedDocument(file.id)}
+                                            >
+                                                <i className={`${file.type === 'application/pdf' ? 'ri-file-pdf-line' : 'ri-image-line'} fs-18 me-2`}></i>
+                                                <span className="me-auto">Documento {index + 1}</span>
+                                                <i className="ri-download-line" onClick={(e) => { e.stopPropagation(); handleDownloadDocument(file); }}></i>
+                                            </ListGroupItem>
+                                        ))}
+                                    </ListGroup>
+                                </Col>
+                                <Col lg={9}>
+                                    {documentFiles.filter((file) => file.id === selectedDocument).map((file) => (
+                                        file.type === 'application/pdf' ? (
+                                            <iframe key={file.id} src={file.url} title={file.id} className="w-100 border rounded" style={{ height: '70vh' }} />
+                                        ) : (
+                                            <img key={file.id} src={file.url} alt={file.id} className="img-fluid rounded" style={{ maxHeight: '70vh' }} />
+                                        )
+                                    ))}
+                                </Col>
+                            </Row>
+                        ) : (
+                            'No hay archivos adjuntos'
+                        )}
                     </CardBody>
                 </Card>
 
+                <Modal size="lg" isOpen={modals.documents} toggle={() => toggleModal('documents')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('documents')}>Modificar Documentos</ModalHeader>
+                    <ModalBody>
+                        <DocumentsField
+                            documents={editedDocuments}
+                            onChange={setEditedDocuments}
+                            folders={documentsFolders}
+                            onUploadingChange={setUploadingDocuments}
+                            onError={(error) => handleError(error, 'Ha ocurrido un error al subir el documento, intentelo más tarde')}
+                        />
+                    </ModalBody>
+                    <ModalFooter>
+                        <Button color="danger" onClick={() => toggleModal('documents', false)}>Cancelar</Button>
+                        <Button color="success" onClick={handleUpdateDocuments} disabled={uploadingDocuments || editedDocuments.length === 0}>
+                            {uploadingDocuments ? <Spinner size="sm" /> : 'Guardar'}
+                        </Button>
+                    </ModalFooter>
+                </Modal>
+
+                <Modal size="xl" isOpen={modals.update} toggle={() => toggleModal('update')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('update')}>Corregir Entrada</ModalHeader>
+                    <ModalBody>
+                        <IncomeForm initialData={incomeDetails} onSubmit={handleSubmitCorrection} onCancel={() => toggleModal('update', false)} />
+                    </ModalBody>
+                </Modal>
+
+                <Modal isOpen={modals.correction} toggle={() => toggleModal('correction')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('correction')}>Registrar Corrección</ModalHeader>
+                    <ModalBody>
+                        <p>La corrección se guardará como una nueva versión de la entrada y, si cambian las cantidades, el inventario se ajustará a las nuevas.</p>
+                        <ReasonForm
+                            label="Motivo de la corrección"
+                            submitLabel="Guardar corrección"
+                            onSubmit={handleCorrectIncome}
+                            onCancel={() => { toggleModal('correction', false); setPendingCorrection(undefined); }}
+                        />
+                    </ModalBody>
+                </Modal>
+
+                <Modal isOpen={modals.void} toggle={() => toggleModal('void')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('void')}>Anular Entrada</ModalHeader>
+                    <ModalBody>
+                        {unavailableStock.length > 0 ? (
+                            <Alert color="warning">
+                                No se puede anular la entrada porque parte del stock ya salió del almacén:
+                                <ul className="mb-0 mt-2">
+                                    {unavailableStock.map((line) => (
+                                        <li key={line.id}>{line.id}: se requieren {line.required}, hay {line.available} en existencia</li>
+                                    ))}
+                                </ul>
+                            </Alert>
+                        ) : (
+                            <p>Al anular la entrada se retirarán del inventario los productos recibidos que no se hayan devuelto al proveedor. Esta acción no se puede deshacer.</p>
+                        )}
+                        <ReasonForm
+                            label="Motivo de la anulación"
+                            submitLabel="Anular entrada"
+                            onSubmit={handleVoidIncome}
+                            onCancel={() => toggleModal('void', false)}
+                            disabled={unavailableStock.length > 0}
+                        />
+                    </ModalBody>
+                </Modal>
+
                 {alertConfig.visible && (
                     <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
                         {alertConfig.message}
@@ -1,36 +1,40 @@
 import BreadCrumb from "Components/Common/BreadCrumb"
 import CustomTable from "Components/Common/CustomTable"
-import { APIClient } from "helpers/api_helper"
-import { useEffect, useState } from "react"
+import { useWarehouse } from "Components/Hooks/WarehouseHooks"
+import { useState } from "react"
 import { useNavigate } from "react-router-dom"
-import { Alert, Button, Card, CardBody, CardHeader, Container } from "reactstrap"
+import { Alert, Badge, Button, Card, CardBody, CardHeader, Container } from "reactstrap"
+import { usePermissions } from "Components/Hooks/PermissionHooks"
 
 
 const ViewIncomes = () => {
     document.title = 'View Incomes | Warehouse'
     const apiUrl = process.env.REACT_APP_API_URL;
-    const axiosHelper = new APIClient();
     const history = useNavigate()
-    const idWarehouse = 'AG001'
+    const { warehouseId: idWarehouse } = useWarehouse();
+    const { can } = usePermissions();
 
     const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
-    const [incomes, setIncomes] = useState([])
 
     const columns = [
         {
             header: 'Identificador',
             accessor: 'id',
-            isFilterable: true
+            isFilterable: true,
+            isSortable: true
         },
         {
             header: 'Proveedor',
             accessor: 'originName',
-            isFilterable: true
+            isFilterable: true,
+            isSortable: true
         },
         {
             header: 'Fecha de entrada',
             accessor: 'date',
-            isFilterable: true
+            isFilterable: true,
+            isSortable: true,
+            filterType: 'date' as const
         },
         {
             header: 'Tipo de entrada',
@@ -42,7 +46,19 @@ const ViewIncomes = () => {
         },
         {
             header: 'Precio Total',
-            accessor: 'totalPrice'
+            accessor: 'totalPrice',
+            isSortable: true,
+            filterType: 'number' as const
+        },
+        {
+            header: 'Estado',
+            accessor: 'status',
+            isFilterable: true,
+            render: (value: boolean) => (
+                <Badge color={value === false ? "danger" : "success"}>
+                    {value === false ? "Anulada" : "Activa"}
+                </Badge>
+            ),
         },
         {
             header: "Acciones",
@@ -63,17 +79,6 @@ const ViewIncomes = () => {
         setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
     };
 
-    const handleFetchIncomes = async () => {
-        await axiosHelper.get(`${apiUrl}/incomes/find_warehouse_incomes/${idWarehouse}`)
-            .then((response) => {
-                const incomesData = response.data.data;
-                setIncomes(incomesData)
-            })
-            .catch((error) => {
-                handleError(error, 'Ha ocurrido un error al obtener los datos, intentelo más tarde');
-            })
-    }
-
     const handleProductDetails = (row: any) => {
         const id_income = row.id
         history(`/warehouse/incomes/income_details/${id_income}`);
@@ -83,10 +88,6 @@ const ViewIncomes = () => {
         history('/warehouse/incomes/create_income')
     }
 
-    useEffect(() => {
-        handleFetchIncomes();
-    }, [])
-
     return (
         <div className="page-content">
             <Container fluid>
@@ -96,15 +97,29 @@ const ViewIncomes = () => {
                     <CardHeader>
                         <div className="d-flex gap-2">
                             <h4 className="me-auto">Entradas</h4>
-                            <Button color="success" onClick={handleAddIncome}>
-                                <i className="ri-add-line me-3" />
-                                Nueva Entrada
-                            </Button>
+                            {can('incomes.create') && (
+                                <Button color="success" onClick={handleAddIncome}>
+                                    <i className="ri-add-line me-3" />
+                                    Nueva Entrada
+                                </Button>
+                            )}
                         </div>
 
                     </CardHeader>
                     <CardBody>
-                        <CustomTable columns={columns} data={incomes} defaultFilterField={'id'}></CustomTable>
+                        {idWarehouse && (
+                            <CustomTable
+                                columns={columns}
+                                exportFileName='entradas'
+                                tableId='incomes'
+                                savedViews={true}
+                                defaultFilterField={'id'}
+                                serverSide={{
+                                    url: `${apiUrl}/incomes/find_warehouse_incomes/${idWarehouse}`,
+                                    onError: (error) => handleError(error, 'Ha ocurrido un error al obtener los datos, intentelo más tarde'),
+                                }}
+                            />
+                        )}
                     </CardBody>
                 </Card>
 
@@ -5,10 +5,14 @@ import ObjectDetails from "Components/Common/ObjectDetails";
 import { APIClient } from "helpers/api_helper";
 import { useEffect, useState } from "react";
 import { useNavigate, useParams, useSearchParams } from "react-router-dom"
-import { Alert, Button, Card, CardBody, CardHeader, Col, Container, Label, Modal, ModalBody, ModalFooter, ModalHeader, Row, Spinner } from "reactstrap"
+import { Alert, Badge, Button, Card, CardBody, CardHeader, Col, Container, Label, Modal, ModalBody, ModalFooter, ModalHeader, Row, Spinner } from "reactstrap"
 import exampleImage from '../../assets/images/alimento.png'
-import ProductForm, { ProductData } from "Components/Common/ProductForm";
+import ProductForm, { ProductData, ProductLot } from "Components/Common/ProductForm";
+import { useCategories } from "Components/Hooks/CategoryHooks";
+import { daysUntil } from "helpers/date_helper";
 import { SupplierData } from "Components/Common/SupplierForm";
+import ReorderSettingsForm, { ReorderSettingsData } from "Components/Common/ReorderSettingsForm";
+import { usePermissions } from "Components/Hooks/PermissionHooks";
 
 
 const displayAttributes = [
@@ -21,6 +25,8 @@ const displayAttributes = [
 ]
 
 const ProductDetails = () => {
+    const { can } = usePermissions();
+    const { isLotTrackedCategory } = useCategories();
     document.title = 'Product details | Warehouse'
     const [searchParams] = useSearchParams();
     const productId = searchParams.get('product');
@@ -40,10 +46,12 @@ const ProductDetails = () => {
     const [lastPrice, setLastPrice] = useState<number>(0);
     const [averagePrice, setAveragePrice] = useState<string>('');
     const [productExistences, setProductExistences] = useState<string>('')
+    const [productLots, setProductLots] = useState([])
+    const [reorderSettings, setReorderSettings] = useState<ReorderSettingsData | undefined>(undefined)
 
     const [loading, setLoading] = useState<boolean>(true)
     const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
-    const [modals, setModals] = useState({ update: false, delete: false });
+    const [modals, setModals] = useState({ update: false, delete: false, reorder: false });
     const incomesColumns = [
         { header: 'Identificador', accessor: 'id' },
         { header: 'Fecha de entrada', accessor: 'date' },
@@ -80,6 +88,23 @@ const ProductDetails = () => {
         },
     ]
 
+    const lotsColumns = [
+        { header: 'Lote', accessor: 'lot' },
+        { header: 'Fecha de caducidad', accessor: 'expirationDate' },
+        { header: 'Existencias', accessor: 'quantity' },
+        {
+            header: 'Estado',
+            accessor: 'status',
+            render: (value: any, row: any) => {
+                const days = daysUntil(row.expirationDate);
+                if (days === null) return null;
+                if (days < 0) return <Badge color="danger">Caducado</Badge>;
+                if (days <= 30) return <Badge color="warning">Por caducar</Badge>;
+                return <Badge color="success">Vigente</Badge>;
+            }
+        },
+    ]
+
     const handleError = (error: any, message: string) => {
         console.error(message, error);
         setAlertConfig({ visible: true, color: "danger", message });
@@ -136,6 +161,46 @@ const ProductDetails = () => {
     }
 
 
+    const handleFetchProductLots = async () => {
+        await axiosHelper.get(`${apiUrl}/product/find_lots/${productId}/${warehouseId}`)
+            .then((response) => {
+                setProductLots(response.data.data.filter((lot: ProductLot) => lot.quantity > 0))
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener los lotes del producto, intentelo más tarde')
+            })
+    }
+
+    const handleFetchReorderSettings = async () => {
+        await axiosHelper.get(`${apiUrl}/warehouse/get_reorder_settings/${warehouseId}/${productId}`)
+            .then((response) => {
+                const settings = response.data.data;
+                setReorderSettings({
+                    product: productId || '',
+                    warehouse: warehouseId || '',
+                    minStock: settings?.minStock || 0,
+                    maxStock: settings?.maxStock || 0,
+                    reorderQuantity: settings?.reorderQuantity || 0,
+                })
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener el punto de reorden del producto, intentelo más tarde')
+            })
+    }
+
+    const handleUpdateReorderSettings = async (data: ReorderSettingsData) => {
+        await axiosHelper.put(`${apiUrl}/warehouse/update_reorder_settings/${warehouseId}/${productId}`, data)
+            .then(() => {
+                handleFetchReorderSettings()
+                toggleModal('reorder', false)
+                setAlertConfig({ visible: true, color: "success", message: "Punto de reorden actualizado correctamente." });
+                setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al actualizar el punto de reorden, intentelo más tarde');
+            })
+    }
+
     const handleHistoryProducts = async () => {
         await axiosHelper.get(`${apiUrl}/product/history_existences/${productId}/${warehouseId}`)
             .then((response) => {
@@ -146,6 +211,7 @@ const ProductDetails = () => {
 
                 setCategoriesIncomes(categories);
                 setSeriesIncomes([{ name: "Existencias", data: series }]);
+                handleHistoryAdjustments(categories);
 
             })
             .catch((error) => {
@@ -153,6 +219,23 @@ const ProductDetails = () => {
             })
     }
 
+    // Los ajustes de conteo físico se muestran como una serie adicional en la gráfica de existencias
+    const handleHistoryAdjustments = async (categories: string[]) => {
+        await axiosHelper.get(`${apiUrl}/product/history_adjustments/${productId}/${warehouseId}`)
+            .then((response) => {
+                const monthlyAdjustments = response.data.data;
+                if (Object.keys(monthlyAdjustments).length === 0) return;
+
+                setSeriesIncomes((prev) => [
+                    ...prev.filter((s) => s.name !== 'Ajustes'),
+                    { name: 'Ajustes', data: categories.map((c) => monthlyAdjustments[c] || 0) }
+                ]);
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener los ajustes del producto, intentelo más tarde');
+            })
+    }
+
     const handleHistoryPrices = async () => {
         await axiosHelper.get(`${apiUrl}/product/history_prices/${productId}/${warehouseId}`)
             .then((response) => {
@@ -243,8 +326,15 @@ const ProductDetails = () => {
         handleAveragePrice();
         handleProductExistences();
         handleFetchProductOutcomes();
+        handleFetchReorderSettings();
     }, []);
 
+    useEffect(() => {
+        if (productDetails && isLotTrackedCategory(productDetails.category)) {
+            handleFetchProductLots();
+        }
+    }, [productDetails]);
+
     return (
         <div className="page-content">
             <Container fluid>
@@ -257,6 +347,10 @@ const ProductDetails = () => {
                             Regresar
                         </Button>
                     </div>
+                    <Button color="primary" onClick={() => history(`/warehouse/inventory/kardex?product=${productId}&warehouse=${warehouseId}`)} disabled={!can('reports.view')}>
+                        <i className="ri-file-list-3-line me-2"></i>
+                        Kardex
+                    </Button>
                 </div>
 
                 <Row className="mt-4">
@@ -323,6 +417,45 @@ const ProductDetails = () => {
                     </Col>
                 </Row>
 
+                <Card className="mt-4">
+                    <CardHeader>
+                        <div className="d-flex">
+                            <h4 className="me-auto">Punto de reorden</h4>
+                            <Button color="primary" onClick={() => toggleModal('reorder')} disabled={!reorderSettings || !can('inventory.adjust')}>
+                                <i className="ri-pencil-line me-2"></i>
+                                Modificar
+                            </Button>
+                        </div>
+                    </CardHeader>
+                    <CardBody>
+                        <Row>
+                            <Col lg={4}>
+                                <Label className="text-muted">Stock Mínimo</Label>
+                                <h4>{reorderSettings?.minStock ?? '-'}</h4>
+                            </Col>
+                            <Col lg={4}>
+                                <Label className="text-muted">Stock Máximo</Label>
+                                <h4>{reorderSettings?.maxStock ?? '-'}</h4>
+                            </Col>
+                            <Col lg={4}>
+                                <Label className="text-muted">Cantidad de Reorden</Label>
+                                <h4>{reorderSettings?.reorderQuantity ?? '-'}</h4>
+                            </Col>
+                        </Row>
+                    </CardBody>
+                </Card>
+
+                {productDetails && isLotTrackedCategory(productDetails.category) && (
+                    <Card className="mt-4">
+                        <CardHeader>
+                            <h4>Existencias por lote</h4>
+                        </CardHeader>
+                        <CardBody>
+                            <CustomTable columns={lotsColumns} data={productLots} showSearchAndFilter={false} rowsPerPage={5} />
+                        </CardBody>
+                    </Card>
+                )}
+
                 <Row className="mt-4">
                     <Col lg={6}>
                         <Card className="h-auto">
@@ -330,7 +463,7 @@ const ProductDetails = () => {
                                 <h4>Existencias Historicas</h4>
                             </CardHeader>
                             {seriesIncomes && categoriesIncomes && seriesIncomes.length > 0 && categoriesIncomes.length > 0 ? (
-                                <LineChart dataColors='["--vz-primary"]' series={seriesIncomes} categories={categoriesIncomes} title={""} />
+                                <LineChart dataColors='["--vz-primary", "--vz-warning"]' series={seriesIncomes} categories={categoriesIncomes} title={""} />
                             ) : (
                                 <div className="pt-4 pb-4" style={{ textAlign: "center" }}><h4>No hay datos disponibles para mostrar</h4> </div>
                             )}
@@ -359,6 +492,15 @@ const ProductDetails = () => {
                     </ModalBody>
                 </Modal>
 
+                <Modal size="lg" isOpen={modals.reorder} toggle={() => toggleModal('reorder')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('reorder')}>Modificar Punto de Reorden</ModalHeader>
+                    <ModalBody>
+                        {reorderSettings && (
+                            <ReorderSettingsForm initialData={reorderSettings} onSubmit={handleUpdateReorderSettings} onCancel={() => toggleModal('reorder', false)} />
+                        )}
+                    </ModalBody>
+                </Modal>
+
                 <Modal isOpen={modals.delete} toggle={() => toggleModal("delete")} backdrop='static' keyboard={false} centered>
                     <ModalHeader toggle={() => toggleModal("delete")}>Desactivar Proveedor</ModalHeader>
                     <ModalBody>¿Desea desactivar este producto?</ModalBody>
@@ -0,0 +1,253 @@
+import BreadCrumb from "Components/Common/BreadCrumb";
+import { useWarehouse } from "Components/Hooks/WarehouseHooks";
+import { APIClient } from "helpers/api_helper";
+import { exportToCSV } from "helpers/export_helper";
+import { KardexRow, buildKardex, kardexBalanceAsOf, toKardexMovements } from "helpers/kardex_helper";
+import { useEffect, useState } from "react";
+import Flatpickr from 'react-flatpickr';
+import { Alert, Button, Card, CardBody, CardHeader, Col, Container, Label, Row, Spinner, Table } from "reactstrap";
+
+interface ValuationLine {
+    id: string;
+    name: string;
+    unit_measurement: string;
+    quantity: number;
+    averageCost: number;
+    value: number;
+}
+
+interface CategoryGroup {
+    category: string;
+    products: Array<ValuationLine>;
+    total: number;
+}
+
+// Productos cuyo historial se consulta en paralelo
+const LEDGER_BATCH_SIZE = 5;
+
+const exportColumns = [
+    { header: 'Categoría', accessor: 'category' },
+    { header: 'Código', accessor: 'id' },
+    { header: 'Producto', accessor: 'name' },
+    { header: 'Unidad de Medida', accessor: 'unit_measurement' },
+    { header: 'Existencias', accessor: 'quantity' },
+    { header: 'Costo Promedio', accessor: 'averageCost' },
+    { header: 'Valor', accessor: 'value' },
+]
+
+const InventoryValuation = () => {
+    document.title = "Valoración de Inventario | Almacén General"
+    const apiUrl = process.env.REACT_APP_API_URL;
+    const axiosHelper = new APIClient();
+    const { warehouseId, selectedWarehouse } = useWarehouse();
+
+    const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
+    const [loading, setLoading] = useState<boolean>(true);
+    const [inventory, setInventory] = useState<any[]>([]);
+    const [ledgers, setLedgers] = useState<Record<string, KardexRow[]>>({});
+    const [asOf, setAsOf] = useState<string>(new Date().toLocaleDateString("es-ES"));
+
+    const handleError = (error: any, message: string) => {
+        console.error(message, error);
+        setAlertConfig({ visible: true, color: "danger", message });
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    };
+
+    const fetchList = async (url: string) => {
+        return await axiosHelper.get(url).then((response) => response.data.data || []);
+    }
+
+    // El costo promedio se recalcula desde el historial de movimientos para poder valorar a cualquier fecha de corte
+    const handleFetchLedger = async (productId: string) => {
+        const [incomes, outcomes, adjustments] = await Promise.all([
+            fetchList(`${apiUrl}/product/find_incomes/${productId}/${warehouseId}`),
+            fetchList(`${apiUrl}/product/find_outcomes/${productId}/${warehouseId}`),
+            fetchList(`${apiUrl}/adjustments/find_product_adjustments/${productId}/${warehouseId}`),
+        ]);
+        return buildKardex(toKardexMovements(productId, warehouseId, incomes, outcomes, adjustments));
+    }
+
+    // Los productos que tenían existencias a una fecha pasada pueden estar agotados o fuera del inventario actual,
+    // por eso la lista se completa con todos los productos que alguna vez entraron al almacén
+    const handleFetchValuedProducts = async () => {
+        const [stock, incomes] = await Promise.all([
+            fetchList(`${apiUrl}/warehouse/get_inventory/${warehouseId}`),
+            fetchList(`${apiUrl}/incomes/find_warehouse_incomes/${warehouseId}`),
+        ]);
+
+        const stockIds = new Set(stock.map((product: any) => product.id));
+        const pastIds: string[] = Array.from(new Set<string>(
+            incomes.flatMap((income: any) => (income.products || []).map((product: any) => product.id))
+        )).filter((id) => !stockIds.has(id));
+
+        if (pastIds.length === 0) return stock;
+
+        const pastProducts = await axiosHelper.create(`${apiUrl}/product/find_products_by_array`, pastIds.map((id) => ({ id, quantity: 0, price: 0 })))
+            .then((response) => response.data.data || []);
+
+        return [...stock, ...pastIds.map((id) => pastProducts.find((product: any) => product.id === id) || { id, name: id })];
+    }
+
+    const handleFetchValuation = async () => {
+        setLoading(true);
+        try {
+            const products = await handleFetchValuedProducts();
+            const productLedgers: Record<string, KardexRow[]> = {};
+
+            // Se consultan los historiales por lotes para no saturar el servidor con todos los productos a la vez
+            for (let i = 0; i < products.length; i += LEDGER_BATCH_SIZE) {
+                const batch = products.slice(i, i + LEDGER_BATCH_SIZE);
+                const batchLedgers = await Promise.all(batch.map((product: any) => handleFetchLedger(product.id)));
+                batch.forEach((product: any, index: number) => {
+                    productLedgers[product.id] = batchLedgers[index];
+                });
+            }
+
+            setInventory(products);
+            setLedgers(productLedgers);
+        } catch (error) {
+            handleError(error, 'Ha ocurrido un error al calcular la valoración del inventario, intentelo más tarde')
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    useEffect(() => {
+        if (!warehouseId) return;
+        handleFetchValuation();
+    }, [warehouseId])
+
+    const categoryGroups: CategoryGroup[] = Object.values(
+        inventory.reduce((groups: Record<string, CategoryGroup>, product: any) => {
+            const { balance, averageCost, value } = kardexBalanceAsOf(ledgers[product.id] || [], asOf);
+            if (balance === 0) return groups;
+
+            const category = product.category || 'Sin categoría';
+            if (!groups[category]) groups[category] = { category, products: [], total: 0 };
+
+            groups[category].products.push({
+                id: product.id,
+                name: product.name,
+                unit_measurement: product.unit_measurement,
+                quantity: balance,
+                averageCost,
+                value,
+            });
+            groups[category].total += value;
+            return groups;
+        }, {})
+    );
+    categoryGroups.sort((a, b) => a.category.localeCompare(b.category));
+
+    const grandTotal = categoryGroups.reduce((sum, group) => sum + group.total, 0);
+
+    const handleExport = () => {
+        const rows = categoryGroups.flatMap((group) => [
+            ...group.products.map((product) => ({ category: group.category, ...product })),
+            { category: group.category, name: 'Subtotal', value: parseFloat(group.total.toFixed(2)) },
+        ]);
+        rows.push({ category: '', name: 'Total general', value: parseFloat(grandTotal.toFixed(2)) });
+
+        exportToCSV(`valoracion_${warehouseId}_${asOf.replace(/\//g, '-')}`, exportColumns, rows);
+    }
+
+    return (
+        <div className="page-content">
+            <Container fluid>
+                <BreadCrumb title="Valoración de Inventario" pageTitle="Almacén General" />
+
+                <div className="d-flex gap-2 mb-3">
+                    <h4 className="me-auto">Valoración de inventario - {selectedWarehouse?.name} al {asOf}</h4>
+                    <Button className="d-print-none" color="primary" onClick={handleExport} disabled={loading || categoryGroups.length === 0}>
+                        <i className="ri-file-download-line me-2" />
+                        Exportar
+                    </Button>
+                    <Button className="d-print-none" color="secondary" onClick={() => window.print()}>
+                        <i className="ri-printer-line me-2" />
+                        Imprimir
+                    </Button>
+                </div>
+
+                <Row className="d-print-none mb-3">
+                    <Col lg={3}>
+                        <Label htmlFor="asOfInput" className="form-label">Fecha de corte</Label>
+                        <Flatpickr
+                            id="asOfInput"
+                            className="form-control"
+                            value={asOf}
+                            options={{ dateFormat: "d-m-Y", defaultDate: asOf }}
+                            onChange={(date) => {
+                                if (date[0]) setAsOf(date[0].toLocaleDateString("es-ES"));
+                            }}
+                        />
+                    </Col>
+                </Row>
+
+                {loading ? (
+                    <div className="text-center p-5"><Spinner /></div>
+                ) : categoryGroups.length === 0 ? (
+                    <Card>
+                        <CardBody className="text-center p-5">
+                            <h5>No hay existencias a la fecha de corte seleccionada</h5>
+                        </CardBody>
+                    </Card>
+                ) : (
+                    <>
+                        {categoryGroups.map((group) => (
+                            <Card key={group.category}>
+                                <CardHeader>
+                                    <h5 className="mb-0">{group.category}</h5>
+                                </CardHeader>
+                                <CardBody>
+                                    <div className="table-responsive">
+                                        <Table className="align-middle table-nowrap mb-0" bordered>
+                                            <thead className="table-light">
+                                                <tr>
+                                                    <th>Código</th>
+                                                    <th>Producto</th>
+                                                    <th>Unidad de Medida</th>
+                                                    <th>Existencias</th>
+                                                    <th>Costo Promedio</th>
+                                                    <th>Valor</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {group.products.map((product) => (
+                                                    <tr key={product.id}>
+                                                        <td>{product.id}</td>
+                                                        <td>{product.name}</td>
+                                                        <td>{product.unit_measurement}</td>
+                                                        <td className={product.quantity < 0 ? "text-danger" : ""}>{product.quantity}</td>
+                                                        <td>${product.averageCost.toFixed(2)}</td>
+                                                        <td>${product.value.toFixed(2)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </Table>
+                                    </div>
+                                    <div className="d-flex justify-content-end mt-3">
+                                        <h5>Subtotal {group.category}: ${group.total.toFixed(2)}</h5>
+                                    </div>
+                                </CardBody>
+                            </Card>
+                        ))}
+
+                        <Card>
+                            <CardBody className="d-flex justify-content-end">
+                                <h4 className="mb-0">Total general: ${grandTotal.toFixed(2)}</h4>
+                            </CardBody>
+                        </Card>
+                    </>
+                )}
+            </Container>
+
+            {alertConfig.visible && (
+                <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
+                    {alertConfig.message}
+                </Alert>
+            )}
+        </div>
+    )
+}
+
+export default InventoryValuation;
@@ -0,0 +1,232 @@
+import BreadCrumb from "Components/Common/BreadCrumb";
+import { APIClient } from "helpers/api_helper";
+import { parseDate } from "helpers/date_helper";
+import { exportToCSV } from "helpers/export_helper";
+import { KardexRow, buildKardex, kardexTypeLabels, toKardexMovements } from "helpers/kardex_helper";
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import Flatpickr from 'react-flatpickr';
+import { Alert, Button, Card, CardBody, CardHeader, Col, Container, Label, Row, Spinner, Table } from "reactstrap";
+
+const exportColumns = [
+    { header: 'Fecha', accessor: 'date' },
+    { header: 'Movimiento', accessor: 'typeLabel' },
+    { header: 'Documento', accessor: 'document' },
+    { header: 'Entrada', accessor: 'quantityIn' },
+    { header: 'Salida', accessor: 'quantityOut' },
+    { header: 'Saldo', accessor: 'balance' },
+    { header: 'Costo Unitario', accessor: 'unitCost' },
+    { header: 'Costo Promedio', accessor: 'averageCost' },
+    { header: 'Valor del Saldo', accessor: 'balanceValue' },
+]
+
+const Kardex = () => {
+    document.title = "Kardex | Almacén"
+    const apiUrl = process.env.REACT_APP_API_URL;
+    const axiosHelper = new APIClient();
+    const history = useNavigate();
+    const [searchParams] = useSearchParams();
+    const productId = searchParams.get('product') || '';
+    const warehouseId = searchParams.get('warehouse') || '';
+
+    const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
+    const [loading, setLoading] = useState<boolean>(true);
+    const [product, setProduct] = useState<any>(undefined);
+    const [ledger, setLedger] = useState<KardexRow[]>([]);
+    const [range, setRange] = useState({ from: '', to: '' });
+
+    const handleError = (error: any, message: string) => {
+        console.error(message, error);
+        setAlertConfig({ visible: true, color: "danger", message });
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    };
+
+    const fetchList = async (url: string) => {
+        return await axiosHelper.get(url).then((response) => response.data.data || []);
+    }
+
+    const handleFetchKardex = async () => {
+        setLoading(true);
+        await Promise.all([
+            axiosHelper.get(`${apiUrl}/product/find_product_id/${productId}`).then((response) => response.data.data),
+            fetchList(`${apiUrl}/product/find_incomes/${productId}/${warehouseId}`),
+            fetchList(`${apiUrl}/product/find_outcomes/${productId}/${warehouseId}`),
+            fetchList(`${apiUrl}/adjustments/find_product_adjustments/${productId}/${warehouseId}`),
+        ])
+            .then(([productData, incomes, outcomes, adjustments]) => {
+                setProduct(productData);
+                setLedger(buildKardex(toKardexMovements(productId, warehouseId, incomes, outcomes, adjustments)));
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener los movimientos del producto, intentelo más tarde')
+            })
+            .finally(() => {
+                setLoading(false);
+            })
+    }
+
+    // El saldo inicial es el del último movimiento anterior al rango, así el saldo corrido cuadra con el periodo
+    const fromTime = parseDate(range.from)?.getTime();
+    const toTime = parseDate(range.to)?.getTime();
+    const rowTime = (row: KardexRow) => parseDate(row.date)?.getTime() ?? 0;
+
+    const previousRows = fromTime !== undefined ? ledger.filter((row) => rowTime(row) < fromTime) : [];
+    const openingRow = previousRows[previousRows.length - 1];
+    const visibleRows = ledger.filter((row) =>
+        (fromTime === undefined || rowTime(row) >= fromTime) && (toTime === undefined || rowTime(row) <= toTime)
+    );
+
+    const totalIn = visibleRows.reduce((sum, row) => sum + row.quantityIn, 0);
+    const totalOut = visibleRows.reduce((sum, row) => sum + row.quantityOut, 0);
+
+    const handleExport = () => {
+        const rows = [
+            ...(openingRow ? [{ ...openingRow, date: range.from, typeLabel: 'Saldo inicial', document: '', quantityIn: '', quantityOut: '', unitCost: '' }] : []),
+            ...visibleRows.map((row) => ({ ...row, typeLabel: kardexTypeLabels[row.type] || row.type })),
+        ];
+        exportToCSV(`kardex_${productId}_${warehouseId}`, exportColumns, rows);
+    }
+
+    const handleBack = () => {
+        if (window.history.length > 1) {
+            history(-1)
+        } else {
+            history(`/warehouse/inventory/product_details?product=${productId}&warehouse=${warehouseId}`);
+        }
+    }
+
+    useEffect(() => {
+        if (!productId || !warehouseId) return;
+        handleFetchKardex();
+    }, [productId, warehouseId])
+
+    return (
+        <div className="page-content">
+            <Container fluid>
+                <BreadCrumb title="Kardex" pageTitle="Inventario" />
+
+                <div className="d-flex gap-2 mb-3 d-print-none">
+                    <Button color="secondary" className="me-auto" onClick={handleBack}>
+                        <i className=" ri-arrow-left-line me-3"></i>
+                        Regresar
+                    </Button>
+                    <Button color="primary" onClick={handleExport} disabled={loading || visibleRows.length === 0}>
+                        <i className="ri-file-download-line me-2" />
+                        Exportar
+                    </Button>
+                    <Button color="secondary" onClick={() => window.print()}>
+                        <i className="ri-printer-line me-2" />
+                        Imprimir
+                    </Button>
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <h4 className="mb-0">Kardex - {product?.name || productId}</h4>
+                    </CardHeader>
+                    <CardBody>
+                        <Row className="d-print-none mb-3">
+                            <Col lg={3}>
+                                <Label htmlFor="fromInput" className="form-label">Desde</Label>
+                                <Flatpickr
+                                    id="fromInput"
+                                    className="form-control"
+                                    value={range.from}
+                                    options={{ dateFormat: "d-m-Y" }}
+                                    onChange={(date) => setRange({ ...range, from: date[0] ? date[0].toLocaleDateString("es-ES") : '' })}
+                                />
+                            </Col>
+                            <Col lg={3}>
+                                <Label htmlFor="toInput" className="form-label">Hasta</Label>
+                                <Flatpickr
+                                    id="toInput"
+                                    className="form-control"
+                                    value={range.to}
+                                    options={{ dateFormat: "d-m-Y" }}
+                                    onChange={(date) => setRange({ ...range, to: date[0] ? date[0].toLocaleDateString("es-ES") : '' })}
+                                />
+                            </Col>
+                            <Col lg={3} className="d-flex align-items-end">
+                                <Button color="link" onClick={() => setRange({ from: '', to: '' })} disabled={!range.from && !range.to}>
+                                    Limpiar filtro
+                                </Button>
+                            </Col>
+                        </Row>
+
+                        {loading ? (
+                            <div className="text-center p-5"><Spinner /></div>
+                        ) : (
+                            <div className="table-responsive">
+                                <Table className="align-middle table-nowrap mb-0" bordered>
+                                    <thead className="table-light">
+                                        <tr>
+                                            <th>Fecha</th>
+                                            <th>Movimiento</th>
+                                            <th>Documento</th>
+                                            <th>Entrada</th>
+                                            <th>Salida</th>
+                                            <th>Saldo</th>
+                                            <th>Costo Unitario</th>
+                                            <th>Costo Promedio</th>
+                                            <th>Valor del Saldo</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {openingRow && (
+                                            <tr className="fw-semibold">
+                                                <td>{range.from}</td>
+                                                <td colSpan={4}>Saldo inicial</td>
+                                                <td>{openingRow.balance}</td>
+                                                <td></td>
+                                                <td>${openingRow.averageCost.toFixed(2)}</td>
+                                                <td>${openingRow.balanceValue.toFixed(2)}</td>
+                                            </tr>
+                                        )}
+                                        {visibleRows.length === 0 ? (
+                                            <tr>
+                                                <td colSpan={9} className="text-center text-muted">No hay movimientos en el periodo seleccionado</td>
+                                            </tr>
+                                        ) : (
+                                            visibleRows.map((row, index) => (
+                                                <tr key={`${row.document}-${index}`}>
+                                                    <td>{row.date}</td>
+                                                    <td>{kardexTypeLabels[row.type] || row.type}</td>
+                                                    <td>{row.document}</td>
+                                                    <td className="text-success">{row.quantityIn || ''}</td>
+                                                    <td className="text-danger">{row.quantityOut || ''}</td>
+                                                    <td className={row.balance < 0 ? "text-danger fw-semibold" : ""}>{row.balance}</td>
+                                                    <td>${row.unitCost.toFixed(2)}</td>
+                                                    <td>${row.averageCost.toFixed(2)}</td>
+                                                    <td>${row.balanceValue.toFixed(2)}</td>
+                                                </tr>
+                                            ))
+                                        )}
+                                    </tbody>
+                                    {visibleRows.length > 0 && (
+                                        <tfoot className="table-light fw-semibold">
+                                            <tr>
+                                                <td colSpan={3}>Totales del periodo</td>
+                                                <td>{totalIn}</td>
+                                                <td>{totalOut}</td>
+                                                <td>{visibleRows[visibleRows.length - 1].balance}</td>
+                                                <td colSpan={3}></td>
+                                            </tr>
+                                        </tfoot>
+                                    )}
+                                </Table>
+                            </div>
+                        )}
+                    </CardBody>
+                </Card>
+            </Container>
+
+            {alertConfig.visible && (
+                <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
+                    {alertConfig.message}
+                </Alert>
+            )}
+        </div>
+    )
+}
+
+export default Kardex;
@@ -0,0 +1,351 @@
+import BreadCrumb from "Components/Common/BreadCrumb";
+import { useWarehouse } from "Components/Hooks/WarehouseHooks";
+import { APIClient } from "helpers/api_helper";
+import { useFormik } from "formik";
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import Flatpickr from 'react-flatpickr';
+import * as Yup from 'yup';
+import { Alert, Button, Card, CardBody, CardHeader, Col, Container, FormFeedback, Input, Label, Modal, ModalBody, ModalFooter, ModalHeader, Row, Spinner, Table } from "reactstrap";
+
+interface AdjustmentProduct {
+    id: string;
+    quantity: number; // Diferencia (positiva: sobrante, negativa: faltante)
+    price: number;
+    reason: string;
+}
+
+export interface AdjustmentData {
+    id: string;
+    warehouse: string;
+    date: string;
+    responsible: string;
+    products: Array<AdjustmentProduct>;
+    totalPrice: number;
+    status: boolean;
+}
+
+interface CountLine {
+    counted: string;
+    reason: string;
+    approved: boolean;
+}
+
+export const adjustmentReasonOptions = [
+    { label: "Merma", value: "shrinkage" },
+    { label: "Producto dañado", value: "damaged" },
+    { label: "Producto caducado", value: "expired" },
+    { label: "Robo o extravío", value: "lost" },
+    { label: "Error de registro", value: "recording_error" },
+    { label: "Sobrante", value: "surplus" },
+];
+
+const validationSchema = Yup.object({
+    id: Yup.string().required('Por favor, ingrese el ID'),
+    date: Yup.string().required('Por favor, ingrese la fecha'),
+    responsible: Yup.string().required('Por favor, ingrese el nombre del responsable del conteo'),
+})
+
+const PhysicalCount = () => {
+    document.title = "Conteo Físico | Almacén General"
+    const apiUrl = process.env.REACT_APP_API_URL;
+    const axiosHelper = new APIClient();
+    const history = useNavigate();
+    const { warehouseId, selectedWarehouse } = useWarehouse();
+
+    const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
+    const [modals, setModals] = useState({ confirm: false });
+    const [inventory, setInventory] = useState<any[]>([]);
+    const [countLines, setCountLines] = useState<Record<string, CountLine>>({});
+
+    const handleError = (error: any, message: string) => {
+        console.error(message, error);
+        setAlertConfig({ visible: true, color: "danger", message });
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    };
+
+    const showAlert = (color: string, message: string) => {
+        setAlertConfig({ visible: true, color: color, message: message })
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    }
+
+    const toggleModal = (modalName: keyof typeof modals, state?: boolean) => {
+        setModals((prev) => ({ ...prev, [modalName]: state ?? !prev[modalName] }));
+    };
+
+    // Un conteo negativo o no numérico no genera diferencia ni puede aprobarse
+    const isInvalidCount = (productId: string) => {
+        const line = countLines[productId];
+        if (!line || line.counted === '') return false;
+        const counted = parseFloat(line.counted);
+        return Number.isNaN(counted) || counted < 0;
+    }
+
+    const getDifference = (product: any) => {
+        const line = countLines[product.id];
+        if (!line || line.counted === '' || isInvalidCount(product.id)) return 0;
+        return parseFloat(line.counted) - product.quantity;
+    }
+
+    const approvedProducts = inventory.filter((p) => countLines[p.id]?.approved && getDifference(p) !== 0);
+    const totalDifferenceValue = approvedProducts.reduce((sum, p) => sum + getDifference(p) * (p.averagePrice || 0), 0);
+
+    const formik = useFormik({
+        initialValues: {
+            id: '',
+            date: '',
+            responsible: '',
+        },
+        validationSchema,
+        onSubmit: async (values, { setSubmitting }) => {
+            const adjustment: AdjustmentData = {
+                ...values,
+                warehouse: warehouseId,
+                products: approvedProducts.map((p) => ({
+                    id: p.id,
+                    quantity: getDifference(p),
+                    price: p.averagePrice || 0,
+                    reason: countLines[p.id].reason,
+                })),
+                totalPrice: parseFloat(totalDifferenceValue.toFixed(2)),
+                status: true,
+            }
+
+            await axiosHelper.create(`${apiUrl}/adjustments/create_adjustment`, adjustment)
+                .then(() => {
+                    showAlert('success', 'Los ajustes de inventario se han registrado con éxito')
+                    setTimeout(() => history('/warehouse/inventory/view_inventory'), 2500);
+                })
+                .catch((error) => {
+                    handleError(error, 'Ha ocurrido un error al registrar los ajustes, intentelo más tarde')
+                })
+                .finally(() => {
+                    setSubmitting(false)
+                    toggleModal('confirm', false)
+                })
+        }
+    })
+
+    const handleFetchInventory = async () => {
+        await axiosHelper.get(`${apiUrl}/warehouse/get_inventory/${warehouseId}`)
+            .then((response) => {
+                setInventory(response.data.data)
+                setCountLines({})
+            })
+            .catch((error) => {
+                handleError(error, 'El servicio no esta disponible, intentelo más tarde')
+            })
+    }
+
+    const handleLineChange = (productId: string, field: keyof CountLine, value: any) => {
+        setCountLines((prev) => ({
+            ...prev,
+            [productId]: { ...(prev[productId] || { counted: '', reason: '', approved: false }), [field]: value }
+        }));
+    }
+
+    const handleOpenConfirm = async () => {
+        const errors = await formik.validateForm();
+        formik.setTouched({ id: true, date: true, responsible: true });
+        if (Object.keys(errors).length > 0) return;
+
+        if (inventory.some((p) => isInvalidCount(p.id))) {
+            showAlert('warning', 'Por favor, corrija los conteos inválidos antes de registrar los ajustes')
+            return;
+        }
+
+        if (approvedProducts.length === 0) {
+            showAlert('warning', 'No hay diferencias aprobadas para registrar')
+            return;
+        }
+
+        if (approvedProducts.some((p) => !countLines[p.id].reason)) {
+            showAlert('warning', 'Por favor, seleccione el motivo de todas las diferencias aprobadas')
+            return;
+        }
+
+        toggleModal('confirm', true)
+    }
+
+    useEffect(() => {
+        if (!warehouseId) return;
+        handleFetchInventory();
+    }, [warehouseId])
+
+    return (
+        <div className="page-content">
+            <Container fluid>
+                <BreadCrumb title="Conteo Físico" pageTitle="Almacén General" />
+
+                <Card>
+                    <CardHeader>
+                        <div className="d-flex gap-2">
+                            <h4 className="me-auto">Hoja de conteo - {selectedWarehouse?.name}</h4>
+                            <Button className="d-print-none" color="secondary" onClick={() => window.print()}>
+                                <i className="ri-printer-line me-2" />
+                                Imprimir hoja de conteo
+                            </Button>
+                            <Button className="d-print-none" color="success" onClick={handleOpenConfirm}>
+                                <i className="ri-check-double-line me-2" />
+                                Registrar ajustes
+                            </Button>
+                        </div>
+                    </CardHeader>
+                    <CardBody>
+                        <Row>
+                            <Col lg={4}>
+                                <Label htmlFor="idInput" className="form-label">Identificador</Label>
+                                <Input
+                                    type="text"
+                                    id="idInput"
+                                    name="id"
+                                    value={formik.values.id}
+                                    onChange={formik.handleChange}
+                                    onBlur={formik.handleBlur}
+                                    invalid={formik.touched.id && !!formik.errors.id}
+                                />
+                                {formik.touched.id && formik.errors.id && <FormFeedback>{formik.errors.id}</FormFeedback>}
+                            </Col>
+
+                            <Col lg={4}>
+                                <Label htmlFor="dateInput" className="form-label">Fecha del conteo</Label>
+                                <Flatpickr
+                                    id="dateInput"
+                                    className="form-control"
+                                    value={formik.values.date}
+                                    options={{
+                                        dateFormat: "d-m-Y",
+                                        defaultDate: formik.values.date,
+                                    }}
+                                    onChange={(date) => {
+                                        const formattedDate = date[0].toLocaleDateString("es-ES");
+                                        formik.setFieldValue("date", formattedDate);
+                                    }}
+                                />
+                                {formik.touched.date && formik.errors.date && <FormFeedback className="d-block">{formik.errors.date}</FormFeedback>}
+                            </Col>
+
+                            <Col lg={4}>
+                                <Label htmlFor="responsibleInput" className="form-label">Responsable del conteo</Label>
+                                <Input
+                                    type="text"
+                                    id="responsibleInput"
+                                    name="responsible"
+                                    value={formik.values.responsible}
+                                    onChange={formik.handleChange}
+                                    onBlur={formik.handleBlur}
+                                    invalid={formik.touched.responsible && !!formik.errors.responsible}
+                                />
+                                {formik.touched.responsible && formik.errors.responsible && <FormFeedback>{formik.errors.responsible}</FormFeedback>}
+                            </Col>
+                        </Row>
+
+                        <div className="table-responsive mt-4">
+                            <Table className="align-middle table-nowrap mb-0" bordered>
+                                <thead className="table-light">
+                                    <tr>
+                                        <th>Código</th>
+                                        <th>Producto</th>
+                                        <th>Unidad de Medida</th>
+                                        <th>Existencias</th>
+                                        <th>Conteo Físico</th>
+                                        <th>Diferencia</th>
+                                        <th>Valor Diferencia</th>
+                                        <th className="d-print-none">Motivo</th>
+                                        <th className="d-print-none">Aprobar</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {inventory.length > 0 ? (
+                                        inventory.map((product) => {
+                                            const line = countLines[product.id];
+                                            const difference = getDifference(product);
+                                            return (
+                                                <tr key={product.id}>
+                                                    <td>{product.id}</td>
+                                                    <td>{product.name}</td>
+                                                    <td>{product.unit_measurement}</td>
+                                                    <td>{product.quantity}</td>
+                                                    <td style={{ minWidth: '120px' }}>
+                                                        <Input
+                                                            type="number"
+                                                            min={0}
+                                                            value={line?.counted ?? ''}
+                                                            onChange={(e) => handleLineChange(product.id, 'counted', e.target.value)}
+                                                            invalid={isInvalidCount(product.id)}
+                                                        />
+                                                        {isInvalidCount(product.id) && <FormFeedback>El conteo no puede ser negativo</FormFeedback>}
+                                                    </td>
+                                                    <td className={difference < 0 ? 'text-danger' : difference > 0 ? 'text-success' : ''}>
+                                                        {line?.counted ? difference : ''}
+                                                    </td>
+                                                    <td className={difference < 0 ? 'text-danger' : difference > 0 ? 'text-success' : ''}>
+                                                        {line?.counted ? `$${(difference * (product.averagePrice || 0)).toFixed(2)}` : ''}
+                                                    </td>
+                                                    <td className="d-print-none" style={{ minWidth: '180px' }}>
+                                                        <Input
+                                                            type="select"
+                                                            value={line?.reason ?? ''}
+                                                            onChange={(e) => handleLineChange(product.id, 'reason', e.target.value)}
+                                                            disabled={difference === 0}
+                                                        >
+                                                            <option value="">Seleccione un motivo</option>
+                                                            {adjustmentReasonOptions.map((reason) => (
+                                                                <option key={reason.value} value={reason.value}>
+                                                                    {reason.label}
+                                                                </option>
+                                                            ))}
+                                                        </Input>
+                                                    </td>
+                                                    <td className="d-print-none text-center">
+                                                        <Input
+                                                            type="checkbox"
+                                                            checked={line?.approved ?? false}
+                                                            onChange={(e) => handleLineChange(product.id, 'approved', e.target.checked)}
+                                                            disabled={difference === 0}
+                                                        />
+                                                    </td>
+                                                </tr>
+                                            )
+                                        })
+                                    ) : (
+                                        <tr>
+                                            <td colSpan={9} className="text-center">
+                                                No se encontraron datos
+                                            </td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </Table>
+                        </div>
+
+                        <div className="d-flex justify-content-end mt-3 d-print-none">
+                            <h5>Valor total de ajustes aprobados: ${totalDifferenceValue.toFixed(2)}</h5>
+                        </div>
+                    </CardBody>
+                </Card>
+
+                <Modal isOpen={modals.confirm} toggle={() => toggleModal('confirm')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('confirm')}>Confirmar ajustes</ModalHeader>
+                    <ModalBody>
+                        {`Se registrarán ${approvedProducts.length} ajustes de inventario por un valor de $${totalDifferenceValue.toFixed(2)}. ¿Desea continuar?`}
+                    </ModalBody>
+                    <ModalFooter>
+                        <Button color="danger" onClick={() => toggleModal('confirm', false)} disabled={formik.isSubmitting}>Cancelar</Button>
+                        <Button color="success" onClick={() => formik.handleSubmit()} disabled={formik.isSubmitting}>
+                            {formik.isSubmitting ? <Spinner size='sm' /> : 'Confirmar'}
+                        </Button>
+                    </ModalFooter>
+                </Modal>
+            </Container>
+
+            {alertConfig.visible && (
+                <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
+                    {alertConfig.message}
+                </Alert>
+            )}
+        </div>
+    )
+}
+
+export default PhysicalCount;
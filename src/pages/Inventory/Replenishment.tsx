@@ -0,0 +1,197 @@
+import BreadCrumb from "Components/Common/BreadCrumb";
+import { isBelowMinimum, suggestedPurchaseQuantity } from "helpers/reorder_helper";
+import { useWarehouse } from "Components/Hooks/WarehouseHooks";
+import { APIClient } from "helpers/api_helper";
+import { parseDate } from "helpers/date_helper";
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Alert, Button, Card, CardBody, CardHeader, Container, Spinner, Table } from "reactstrap";
+
+interface ReplenishmentLine {
+    id: string;
+    name: string;
+    unit_measurement: string;
+    quantity: number;
+    minStock: number;
+    maxStock: number;
+    suggestedQuantity: number;
+    lastPrice: number;
+}
+
+interface SupplierGroup {
+    supplierId: string;
+    supplierName: string;
+    products: Array<ReplenishmentLine>;
+}
+
+const Replenishment = () => {
+    document.title = "Reabastecimiento | Almacén General"
+    const apiUrl = process.env.REACT_APP_API_URL;
+    const axiosHelper = new APIClient();
+    const history = useNavigate();
+    const { warehouseId, selectedWarehouse } = useWarehouse();
+
+    const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
+    const [loading, setLoading] = useState<boolean>(true);
+    const [supplierGroups, setSupplierGroups] = useState<SupplierGroup[]>([]);
+
+    const handleError = (error: any, message: string) => {
+        console.error(message, error);
+        setAlertConfig({ visible: true, color: "danger", message });
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    };
+
+    // El proveedor habitual es aquel al que se le compró el producto más recientemente
+    const handleFetchLastIncome = async (productId: string) => {
+        return await axiosHelper.get(`${apiUrl}/product/find_incomes/${productId}/${warehouseId}`)
+            .then((response) => {
+                const incomes = response.data.data;
+                if (incomes.length === 0) return null;
+
+                return incomes.reduce((latest: any, income: any) => {
+                    const latestDate = parseDate(latest.date)?.getTime() || 0;
+                    const incomeDate = parseDate(income.date)?.getTime() || 0;
+                    return incomeDate > latestDate ? income : latest;
+                });
+            })
+            .catch((error) => {
+                console.error(`Error al obtener las entradas del producto ${productId}`, error);
+                return null;
+            })
+    }
+
+    const handleFetchReplenishment = async () => {
+        setLoading(true);
+        await axiosHelper.get(`${apiUrl}/warehouse/get_inventory/${warehouseId}`)
+            .then(async (response) => {
+                const products = response.data.data.filter(isBelowMinimum);
+                const groups: Record<string, SupplierGroup> = {};
+
+                for (const product of products) {
+                    const lastIncome = await handleFetchLastIncome(product.id);
+                    const supplierId = lastIncome?.origin?.id || '';
+                    const lastPrice = lastIncome?.products?.find((p: any) => p.id === product.id)?.price || product.averagePrice || 0;
+
+                    if (!groups[supplierId]) {
+                        groups[supplierId] = {
+                            supplierId,
+                            supplierName: lastIncome?.originName || 'Sin proveedor registrado',
+                            products: [],
+                        };
+                    }
+
+                    groups[supplierId].products.push({
+                        id: product.id,
+                        name: product.name,
+                        unit_measurement: product.unit_measurement,
+                        quantity: product.quantity,
+                        minStock: product.minStock,
+                        maxStock: product.maxStock,
+                        suggestedQuantity: suggestedPurchaseQuantity(product),
+                        lastPrice,
+                    });
+                }
+
+                setSupplierGroups(Object.values(groups));
+            })
+            .catch((error) => {
+                handleError(error, 'El servicio no esta disponible, intentelo más tarde')
+            })
+            .finally(() => {
+                setLoading(false);
+            })
+    }
+
+    useEffect(() => {
+        if (!warehouseId) return;
+        handleFetchReplenishment();
+    }, [warehouseId])
+
+    const groupTotal = (group: SupplierGroup) => group.products.reduce((sum, p) => sum + p.suggestedQuantity * p.lastPrice, 0);
+
+    return (
+        <div className="page-content">
+            <Container fluid>
+                <BreadCrumb title="Reabastecimiento" pageTitle="Almacén General" />
+
+                <div className="d-flex gap-2 mb-3">
+                    <h4 className="me-auto">Sugerencia de compras - {selectedWarehouse?.name}</h4>
+                    <Button className="d-print-none" color="secondary" onClick={() => window.print()}>
+                        <i className="ri-printer-line me-2" />
+                        Imprimir
+                    </Button>
+                </div>
+
+                {loading ? (
+                    <div className="text-center p-5"><Spinner /></div>
+                ) : supplierGroups.length === 0 ? (
+                    <Card>
+                        <CardBody className="text-center p-5">
+                            <h5>No hay productos por debajo de su stock mínimo</h5>
+                        </CardBody>
+                    </Card>
+                ) : (
+                    supplierGroups.map((group) => (
+                        <Card key={group.supplierId || 'none'}>
+                            <CardHeader>
+                                <div className="d-flex">
+                                    <h5 className="me-auto mb-0">{group.supplierName}</h5>
+                                    {group.supplierId && (
+                                        <Button className="d-print-none" color="link" size="sm" onClick={() => history(`/warehouse/suppliers/supplier_details/${group.supplierId}`)}>
+                                            Ver proveedor
+                                        </Button>
+                                    )}
+                                </div>
+                            </CardHeader>
+                            <CardBody>
+                                <div className="table-responsive">
+                                    <Table className="align-middle table-nowrap mb-0" bordered>
+                                        <thead className="table-light">
+                                            <tr>
+                                                <th>Código</th>
+                                                <th>Producto</th>
+                                                <th>Unidad de Medida</th>
+                                                <th>Existencias</th>
+                                                <th>Stock Mínimo</th>
+                                                <th>Stock Máximo</th>
+                                                <th>Cantidad Sugerida</th>
+                                                <th>Último Precio</th>
+                                                <th>Costo Estimado</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {group.products.map((product) => (
+                                                <tr key={product.id}>
+                                                    <td>{product.id}</td>
+                                                    <td>{product.name}</td>
+                                                    <td>{product.unit_measurement}</td>
+                                                    <td className="text-danger">{product.quantity}</td>
+                                                    <td>{product.minStock}</td>
+                                                    <td>{product.maxStock}</td>
+                                                    <td className="fw-semibold">{product.suggestedQuantity}</td>
+                                                    <td>${product.lastPrice.toFixed(2)}</td>
+                                                    <td>${(product.suggestedQuantity * product.lastPrice).toFixed(2)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </Table>
+                                </div>
+                                <div className="d-flex justify-content-end mt-3">
+                                    <h5>Total estimado: ${groupTotal(group).toFixed(2)}</h5>
+                                </div>
+                            </CardBody>
+                        </Card>
+                    ))
+                )}
+            </Container>
+
+            {alertConfig.visible && (
+                <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
+                    {alertConfig.message}
+                </Alert>
+            )}
+        </div>
+    )
+}
+
+export default Replenishment;
@@ -7,10 +7,14 @@ import ProductForm from "Components/Common/ProductForm";
 import { ProductData } from "Components/Common/ProductForm";
 import { useNavigate } from "react-router-dom";
 import { size } from "lodash";
+import { useWarehouse } from "Components/Hooks/WarehouseHooks";
+import { isBelowMinimum } from "helpers/reorder_helper";
+import { usePermissions } from "Components/Hooks/PermissionHooks";
 
 const ViewInventory = () => {
   document.title = "Inventario | Almacén General";
-  const warehouseId = 'AG001'
+  const { warehouseId } = useWarehouse();
+  const { can } = usePermissions();
   const apiUrl = process.env.REACT_APP_API_URL;
   const axiosHelper = new APIClient();
   const history = useNavigate();
@@ -19,28 +23,40 @@ const ViewInventory = () => {
   const [modals, setModals] = useState({ update: false, delete: false });
   const [productsData, setProductsData] = useState([]);
   const [selectedProduct, setSelectedProduct] = useState<ProductData | undefined>(undefined);
+  const [showBelowMinimum, setShowBelowMinimum] = useState<boolean>(false);
 
 
   const columnsTable = [
     {
       header: "Código",
       accessor: "id",
-      isFilterable: true
+      isFilterable: true,
+      isSortable: true
     },
     {
       header: "Producto",
       accessor: "name",
-      isFilterable: true
+      isFilterable: true,
+      isSortable: true
     },
     {
       header: 'Existencias',
       accessor: 'quantity',
-      isFilterable: true
+      isFilterable: true,
+      isSortable: true,
+      filterType: 'number' as const,
+      render: (value: any, row: any) => (
+        <div className="d-flex gap-2 align-items-center">
+          <span>{value}</span>
+          {isBelowMinimum(row) && <Badge color="danger">Bajo mínimo ({row.minStock})</Badge>}
+        </div>
+      ),
     },
     {
       header: 'Unidad de Medida',
       accessor: 'unit_measurement',
       isFilterable: true,
+      isSortable: true,
       options: [
         { label: "Galones", value: 'Galones' },
         { label: "Litros", value: 'Litros' },
@@ -57,6 +73,7 @@ const ViewInventory = () => {
       header: 'Categoría',
       accessor: 'category',
       isFilterable: true,
+      isSortable: true,
       options: [
         { label: 'Alimentos', value: 'Alimentos' },
         { label: 'Medicamentos', value: 'Medicamentos' },
@@ -110,8 +127,9 @@ const ViewInventory = () => {
 
 
   useEffect(() => {
+    if (!warehouseId) return;
     fetchProductsData();
-  }, []);
+  }, [warehouseId]);
 
 
   const handleAddProduct = () => {
@@ -172,15 +190,33 @@ const ViewInventory = () => {
         <Card className="rounded" style={{ height: '75vh' }}>
           <CardHeader>
             <div className="d-flex justify-content-between">
-              <h4 className="m-2">Productos</h4>
-              <Button className="h-50" color="success" onClick={handleAddProduct}>
-                <i className="ri-add-line pe-2" />
-                Ingresar Productos
+              <h4 className="m-2 me-auto">Productos</h4>
+              <Button className="h-50 me-2" color={showBelowMinimum ? "danger" : "light"} onClick={() => setShowBelowMinimum(!showBelowMinimum)}>
+                <i className="ri-filter-3-line pe-2" />
+                Bajo mínimo ({productsData.filter(isBelowMinimum).length})
               </Button>
+              {can('reports.view') && (
+                <Button className="h-50 me-2" color="secondary" onClick={() => history('/warehouse/inventory/replenishment')}>
+                  <i className="ri-shopping-cart-2-line pe-2" />
+                  Reabastecimiento
+                </Button>
+              )}
+              {can('inventory.adjust') && (
+                <Button className="h-50 me-2" color="secondary" onClick={() => history('/warehouse/inventory/physical_count')}>
+                  <i className="ri-list-check-2 pe-2" />
+                  Conteo Físico
+                </Button>
+              )}
+              {can('incomes.create') && (
+                <Button className="h-50" color="success" onClick={handleAddProduct}>
+                  <i className="ri-add-line pe-2" />
+                  Ingresar Productos
+                </Button>
+              )}
             </div>
           </CardHeader>
           <CardBody>
-            <CustomTable columns={columnsTable} data={productsData} showSearchAndFilter={true} rowClickable={false} defaultFilterField='name' />
+            <CustomTable columns={columnsTable} data={showBelowMinimum ? productsData.filter(isBelowMinimum) : productsData} exportFileName='inventario' tableId='inventory' savedViews={true} showSearchAndFilter={true} rowClickable={false} defaultFilterField='name' />
           </CardBody>
         </Card>
 
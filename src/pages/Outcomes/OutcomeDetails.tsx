@@ -1,11 +1,16 @@
 import BreadCrumb from "Components/Common/BreadCrumb"
 import CustomTable from "Components/Common/CustomTable"
 import ObjectDetails from "Components/Common/ObjectDetails"
-import { OutcomeData } from "Components/Common/OutcomeForm"
-import { APIClient } from "helpers/api_helper"
+import { OutcomeCancellation, OutcomeData, TransferReception, transferStatusOptions } from "Components/Common/OutcomeForm"
+import TransferReceptionForm, { receptionLosses } from "Components/Common/TransferReceptionForm"
+import { consumptionReasonOptions } from "Components/Common/ConsumptionForm"
+import { findUnavailableStock, quantityChanges } from "Components/Common/IncomeForm"
+import ReasonForm from "Components/Common/ReasonForm"
+import { APIClient, getLoggedinUserName } from "helpers/api_helper"
 import { useEffect, useState } from "react"
 import { useNavigate, useParams } from "react-router-dom"
-import { Alert, Button, Card, CardBody, CardHeader, Col, Container, Row } from "reactstrap"
+import { Alert, Badge, Button, Card, CardBody, CardHeader, Col, Container, Modal, ModalBody, ModalHeader, Row, Table } from "reactstrap"
+import { usePermissions } from "Components/Hooks/PermissionHooks"
 
 const outcomeAttributes = [
     { key: 'id', label: 'Identificador' },
@@ -21,7 +26,20 @@ const warehouseDestinyAttributes = [
     { key: 'location', label: 'Ubicación' },
 ]
 
+const relatedIncomeAttributes = [
+    { key: 'id', label: 'Entrada devuelta' },
+    { key: 'date', label: 'Fecha de entrada' },
+    { key: 'origin.id', label: 'Proveedor' },
+    { key: 'totalPrice', label: 'Precio Total' },
+]
+
+const consumptionAttributes = [
+    { key: 'reason', label: 'Motivo de consumo' },
+    { key: 'responsible', label: 'Responsable' },
+]
+
 const OutcomeDetails = () => {
+    const { can, isManagerOf } = usePermissions();
     document.title = 'Detalles de salida'
     const apiUrl = process.env.REACT_APP_API_URL;
     const axiosHelper = new APIClient();
@@ -30,8 +48,11 @@ const OutcomeDetails = () => {
 
     const [alertConfig, setAlertConfig] = useState({ visible: false, color: '', message: '' })
     const [outcome, setOutcome] = useState<OutcomeData>( );
-    const [warehouseDestiny, setWarehouseDestiny] = useState({})
+    const [warehouseDestiny, setWarehouseDestiny] = useState<any>({})
+    const [relatedIncome, setRelatedIncome] = useState({})
     const [productsOutcome, setProductsOutcome] = useState([])
+    const [modals, setModals] = useState({ cancel: false, reception: false });
+    const [unavailableStock, setUnavailableStock] = useState<Array<{ id: string; required: number; available: number }>>([])
 
     const productColumns = [
         { header: 'Código', accessor: 'id' },
@@ -44,6 +65,11 @@ const OutcomeDetails = () => {
     ]
 
 
+    const transferStatus = outcome?.outcomeType === 'transfer'
+        ? transferStatusOptions.find((s) => s.value === (outcome.transferStatus || 'received'))
+        : undefined
+    const losses = outcome?.reception ? receptionLosses(outcome, outcome.reception) : []
+
     const handleError = (error: any, message: string) => {
         console.error(message, error)
         setAlertConfig({ visible: true, color: 'danger', message: message })
@@ -52,6 +78,17 @@ const OutcomeDetails = () => {
         }, 5000);
     }
 
+    const showAlert = (color: string, message: string) => {
+        setAlertConfig({ visible: true, color: color, message: message })
+        setTimeout(() => {
+            setAlertConfig({ ...alertConfig, visible: false })
+        }, 5000);
+    }
+
+    const toggleModal = (modalName: keyof typeof modals, state?: boolean) => {
+        setModals((prev) => ({ ...prev, [modalName]: state ?? !prev[modalName] }));
+    };
+
     const handleFetchOutcome = async () => {
         await axiosHelper.get(`${apiUrl}/outcomes/find_outcome_id/${id_outcome}`)
             .then((response) => {
@@ -73,6 +110,16 @@ const OutcomeDetails = () => {
             })
     }
 
+    const handleFetchRelatedIncome = async () => {
+        await axiosHelper.get(`${apiUrl}/incomes/income_display_details/${outcome?.relatedIncome}`)
+            .then((response) => {
+                setRelatedIncome(response.data.data)
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener los datos de la entrada devuelta, intentelo más tarde')
+            })
+    }
+
     const handleFetchOutcomeProducts = async () => {
         await axiosHelper.create(`${apiUrl}/product/find_products_by_array`, outcome?.products)
             .then((response) => {
@@ -83,6 +130,70 @@ const OutcomeDetails = () => {
             })
     }
 
+    // El subalmacén de destino debe conservar lo traspasado para poder devolverlo al almacén de origen
+    const handleOpenCancelModal = async () => {
+        if (!outcome) return;
+
+        // Lo que está en tránsito aún no ha entrado al destino, solo vuelve al origen
+        if (outcome.transferStatus === 'in_transit') {
+            setUnavailableStock([])
+            toggleModal('cancel', true)
+            return;
+        }
+
+        await axiosHelper.get(`${apiUrl}/warehouse/get_inventory/${outcome.warehouseDestiny}`)
+            .then((response) => {
+                // Si hubo faltantes o daños, en el destino solo entró lo recibido
+                const delivered = outcome.reception
+                    ? outcome.reception.lines.map((line) => ({ id: line.id, quantity: line.received, price: 0 }))
+                    : outcome.products
+                setUnavailableStock(findUnavailableStock(quantityChanges(delivered, []), response.data.data))
+                toggleModal('cancel', true)
+            })
+            .catch((error) => {
+                handleError(error, 'No se pudo comprobar la existencia del subalmacén de destino, intentelo más tarde')
+            })
+    }
+
+    const handleCancelOutcome = async (reason: string) => {
+        if (!outcome) return;
+
+        const cancellation: OutcomeCancellation = {
+            user: getLoggedinUserName(),
+            date: new Date().toLocaleDateString('es-ES'),
+            reason,
+        }
+
+        await axiosHelper.put(`${apiUrl}/outcomes/cancel_outcome/${outcome.id}`, cancellation)
+            .then(() => {
+                handleFetchOutcome()
+                showAlert('success', 'Traspaso cancelado, las cantidades se devolvieron al almacén de origen')
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al cancelar el traspaso, intentelo más tarde')
+            })
+            .finally(() => {
+                toggleModal('cancel', false)
+            })
+    }
+
+    // Los traspasos hacia el almacén general no tienen página de subalmacén, se confirman desde aquí
+    const handleConfirmReception = async (reception: TransferReception) => {
+        if (!outcome) return;
+
+        await axiosHelper.put(`${apiUrl}/outcomes/confirm_transfer/${outcome.id}`, { ...reception, losses: receptionLosses(outcome, reception) })
+            .then(() => {
+                handleFetchOutcome()
+                showAlert('success', 'La recepción del traspaso se ha confirmado con éxito')
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al confirmar la recepción, intentelo más tarde')
+            })
+            .finally(() => {
+                toggleModal('reception', false)
+            })
+    }
+
     const handleClicProductDetails = (row: any) => {
         history(`/warehouse/inventory/product_details?warehouse=${outcome?.warehouseDestiny}&product=${row.id}`)
     }
@@ -101,7 +212,11 @@ const OutcomeDetails = () => {
 
     useEffect(() => {
         if (outcome) {
-            handleFetchWarehouseDestiny();
+            if (outcome.outcomeType === 'supplier_return') {
+                handleFetchRelatedIncome();
+            } else if (outcome.outcomeType !== 'consumption') {
+                handleFetchWarehouseDestiny();
+            }
             handleFetchOutcomeProducts();
         }
     }, [outcome])
@@ -116,28 +231,83 @@ const OutcomeDetails = () => {
                         <i className="ri-arrow-left-line me-3" />
                         Regresar
                     </Button>
+
+                    {/* Las recepciones en subalmacenes se confirman desde el detalle del subalmacén */}
+                    {outcome?.status && outcome.transferStatus === 'in_transit' && warehouseDestiny.id && !warehouseDestiny.isSubwarehouse && can('transfers.receive') && isManagerOf(warehouseDestiny.manager) && (
+                        <Button color="success" className="me-2" onClick={() => toggleModal('reception', true)}>
+                            <i className="ri-checkbox-circle-line me-2" />
+                            Confirmar recepción
+                        </Button>
+                    )}
+
+                    {outcome?.outcomeType === 'transfer' && outcome.status && can('outcomes.cancel') && (
+                        <Button color="danger" onClick={handleOpenCancelModal}>
+                            <i className="ri-close-circle-line me-2" />
+                            Cancelar traspaso
+                        </Button>
+                    )}
                 </div>
 
+                {outcome && !outcome.status && (
+                    <Alert color="danger" className="mt-3 mb-0">
+                        <i className="ri-error-warning-line me-2" />
+                        {outcome.cancellation
+                            ? `Salida cancelada el ${outcome.cancellation.date} por ${outcome.cancellation.user}. Motivo: ${outcome.cancellation.reason}`
+                            : 'Salida cancelada'}
+                    </Alert>
+                )}
+
                 <Row className="d-flex mt-3" style={{ alignItems: 'stretch', height: '75vh' }}>
                     <Col lg={4}>
                         <div className="d-flex flex-column gap-3 h-100">
                             <Card className="m-0 h-50">
-                                <CardHeader>
-                                    <h4>Detalles de Salida</h4>
+                                <CardHeader className="d-flex">
+                                    <h4 className="me-auto">Detalles de Salida</h4>
+                                    {outcome && !outcome.status && <Badge color="danger" className="fs-6">Cancelada</Badge>}
+                                    {outcome?.status && transferStatus && <Badge color={transferStatus.color} className="fs-6">{transferStatus.label}</Badge>}
                                 </CardHeader>
                                 <CardBody>
                                     <ObjectDetails attributes={outcomeAttributes} object={outcome || {}} />
                                 </CardBody>
                             </Card>
 
-                            <Card className="m-0 h-50">
-                                <CardHeader>
-                                    <h4>Almacén de destino</h4>
-                                </CardHeader>
-                                <CardBody>
-                                    <ObjectDetails attributes={warehouseDestinyAttributes} object={warehouseDestiny} />
-                                </CardBody>
-                            </Card>
+                            {outcome?.outcomeType === 'consumption' ? (
+                                <Card className="m-0 h-50">
+                                    <CardHeader>
+                                        <h4>Detalles de Consumo</h4>
+                                    </CardHeader>
+                                    <CardBody>
+                                        <ObjectDetails
+                                            attributes={consumptionAttributes}
+                                            object={{
+                                                ...outcome,
+                                                reason: consumptionReasonOptions.find((r) => r.value === outcome.reason)?.label || outcome.reason
+                                            }}
+                                        />
+                                    </CardBody>
+                                </Card>
+                            ) : outcome?.outcomeType === 'supplier_return' ? (
+                                <Card className="m-0 h-50">
+                                    <CardHeader className="d-flex">
+                                        <h4>Entrada devuelta</h4>
+                                        <Button className="ms-auto btn-icon" color="secondary" onClick={() => history(`/warehouse/incomes/income_details/${outcome.relatedIncome}`)}>
+                                            <i className="ri-eye-fill align-middle" />
+                                        </Button>
+                                    </CardHeader>
+                                    <CardBody>
+                                        <ObjectDetails attributes={relatedIncomeAttributes} object={relatedIncome} />
+                                    </CardBody>
+                                </Card>
+                            ) : (
+                                <Card className="m-0 h-50">
+                                    <CardHeader>
+                                        <h4>Almacén de destino</h4>
+                                    </CardHeader>
+                                    <CardBody>
+                                        <ObjectDetails attributes={warehouseDestinyAttributes} object={warehouseDestiny} />
+                                    </CardBody>
+                                </Card>
+                            )}
                         </div>
 
                     </Col>
@@ -154,6 +324,91 @@ const OutcomeDetails = () => {
                     </Col>
                 </Row>
 
+                {outcome?.reception && (
+                    <Card className="mt-4">
+                        <CardHeader>
+                            <h4>Recepción en destino</h4>
+                        </CardHeader>
+                        <CardBody>
+                            <p className="text-muted">
+                                Confirmada el {outcome.reception.date} por {outcome.reception.user} (responsable: {outcome.reception.manager})
+                            </p>
+                            <Table className="align-middle mb-0" bordered>
+                                <thead className="table-light">
+                                    <tr>
+                                        <th>Producto</th>
+                                        <th>Enviado</th>
+                                        <th>Recibido</th>
+                                        <th>Faltante</th>
+                                        <th>Dañado</th>
+                                        <th>Observaciones</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {outcome.reception.lines.map((line) => (
+                                        <tr key={line.id}>
+                                            <td>{line.id}</td>
+                                            <td>{line.sent}</td>
+                                            <td>{line.received}</td>
+                                            <td className={line.shortage > 0 ? "text-danger" : ""}>{line.shortage}</td>
+                                            <td className={line.damaged > 0 ? "text-danger" : ""}>{line.damaged}</td>
+                                            <td>{line.notes || '-'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </Table>
+                            {losses.length > 0 && (
+                                <Alert color="warning" className="mt-3 mb-0">
+                                    Pérdida registrada en el almacén de origen: ${losses.reduce((sum, loss) => sum + loss.value, 0).toFixed(2)}
+                                </Alert>
+                            )}
+                        </CardBody>
+                    </Card>
+                )}
+
+                <Modal size="xl" isOpen={modals.reception} toggle={() => toggleModal('reception')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('reception')}>Confirmar Recepción de Traspaso</ModalHeader>
+                    <ModalBody>
+                        {outcome && (
+                            <TransferReceptionForm
+                                transfer={outcome}
+                                manager={warehouseDestiny.manager || ''}
+                                onSubmit={handleConfirmReception}
+                                onCancel={() => toggleModal('reception', false)}
+                            />
+                        )}
+                    </ModalBody>
+                </Modal>
+
+                <Modal isOpen={modals.cancel} toggle={() => toggleModal('cancel')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('cancel')}>Cancelar Traspaso</ModalHeader>
+                    <ModalBody>
+                        {unavailableStock.length > 0 ? (
+                            <Alert color="warning">
+                                No se puede cancelar el traspaso porque el subalmacén de destino ya no tiene existencia suficiente:
+                                <ul className="mb-0 mt-2">
+                                    {unavailableStock.map((line) => (
+                                        <li key={line.id}>{line.id}: se requieren {line.required}, hay {line.available} en existencia</li>
+                                    ))}
+                                </ul>
+                            </Alert>
+                        ) : (
+                            <p>
+                                {outcome?.transferStatus === 'in_transit'
+                                    ? 'El traspaso aún está en tránsito, las cantidades se devolverán al almacén de origen. Esta acción no se puede deshacer.'
+                                    : 'Las cantidades se retirarán del subalmacén de destino y se devolverán al almacén de origen. Esta acción no se puede deshacer.'}
+                            </p>
+                        )}
+                        <ReasonForm
+                            label="Motivo de la cancelación"
+                            submitLabel="Confirmar cancelación"
+                            onSubmit={handleCancelOutcome}
+                            onCancel={() => toggleModal('cancel', false)}
+                            disabled={unavailableStock.length > 0}
+                        />
+                    </ModalBody>
+                </Modal>
+
                 {alertConfig.visible && (
                     <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
                         {alertConfig.message}
@@ -1,22 +1,30 @@
 import { render } from "@testing-library/react";
 import BreadCrumb from "Components/Common/BreadCrumb";
 import CustomTable from "Components/Common/CustomTable";
-import { APIClient } from "helpers/api_helper";
-import { useEffect, useState } from "react";
+import { useWarehouse } from "Components/Hooks/WarehouseHooks";
 import { useNavigate } from "react-router-dom";
-import { Button, Card, CardBody, CardHeader, Container } from "reactstrap";
+import { Badge, Button, Card, CardBody, CardHeader, Container } from "reactstrap";
+import { usePermissions } from "Components/Hooks/PermissionHooks";
 
 const ViewOutcomes = () => {
     document.title = 'Ver Salidas'
     const history = useNavigate();
-    const axiosHelper = new APIClient();
     const apiUrl = process.env.REACT_APP_API_URL;
-    const warehouseId = 'AG001'
+    const { warehouseId } = useWarehouse();
+    const { can } = usePermissions();
     const columns = [
-        { header: 'Identificador', accessor: 'id', isFilterable: true },
-        { header: 'Fecha de Salida', accessor: 'date', isFilterable: true },
-        { header: 'Tipo de Salida', accessor: 'outcomeType', isFilterable: true },
-        { header: 'Subalmacén de destino', accessor: 'warehouseDestiny', isFilterable: true },
+        { header: 'Identificador', accessor: 'id', isFilterable: true, isSortable: true },
+        { header: 'Fecha de Salida', accessor: 'date', isFilterable: true, isSortable: true, filterType: 'date' as const },
+        { header: 'Tipo de Salida', accessor: 'outcomeType', isFilterable: true, isSortable: true },
+        { header: 'Subalmacén de destino', accessor: 'warehouseDestiny', isFilterable: true, isSortable: true },
+        {
+            header: 'Estado', accessor: 'status', isFilterable: true,
+            render: (value: boolean) => (
+                <Badge color={value === false ? "danger" : "success"}>
+                    {value === false ? "Cancelada" : "Activa"}
+                </Badge>
+            )
+        },
         {
             header: 'Acciones', accessor: 'actions',
             render: (value: any, row: any) => (
@@ -29,18 +37,6 @@ const ViewOutcomes = () => {
         }
     ]
 
-    const [outcomes, setOutcomes] = useState([])
-
-    const handleFetchOutcomes = async () => {
-        await axiosHelper.get(`${apiUrl}/outcomes/find_warehouse_outcomes/${warehouseId}`)
-            .then((response) => {
-                setOutcomes(response.data.data)
-            })
-            .catch((error) => {
-                history('/auth-500')
-            })
-    }
-
     const handleClicOutcomeDetails = (row: any) => {
         history(`/warehouse/outcomes/outcome_details/${row.id}`)
     }
@@ -49,10 +45,6 @@ const ViewOutcomes = () => {
         history('/warehouse/outcomes/create_outcome')
     }
 
-    useEffect(() => {
-        handleFetchOutcomes();
-    }, [])
-
     return (
         <div className="page-content">
             <Container fluid>
@@ -63,15 +55,30 @@ const ViewOutcomes = () => {
                         <div className="d-flex ">
                             <h4>Salidas</h4>
 
-                            <Button className="ms-auto" color="secondary" onClick={handleClicAddOutcome}>
-                                <i className="ri-add-line me-2" />
-                                Nueva Salida
-                            </Button>
+                            {can('outcomes.create') && (
+                                <Button className="ms-auto" color="secondary" onClick={handleClicAddOutcome}>
+                                    <i className="ri-add-line me-2" />
+                                    Nueva Salida
+                                </Button>
+                            )}
                         </div>
 
                     </CardHeader>
                     <CardBody>
-                        <CustomTable columns={columns} data={outcomes} showSearchAndFilter={true} defaultFilterField='id' />
+                        {warehouseId && (
+                            <CustomTable
+                                columns={columns}
+                                exportFileName='salidas'
+                                tableId='outcomes'
+                                savedViews={true}
+                                showSearchAndFilter={true}
+                                defaultFilterField='id'
+                                serverSide={{
+                                    url: `${apiUrl}/outcomes/find_warehouse_outcomes/${warehouseId}`,
+                                    onError: () => history('/auth-500'),
+                                }}
+                            />
+                        )}
                     </CardBody>
                 </Card>
             </Container>
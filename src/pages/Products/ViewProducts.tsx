@@ -1,11 +1,14 @@
 import BreadCrumb from "Components/Common/BreadCrumb";
+import CachedImage from "Components/Common/CachedImage";
 import CustomTable from "Components/Common/CustomTable";
 import ObjectDetails from "Components/Common/ObjectDetails";
 import ProductForm, { ProductData } from "Components/Common/ProductForm";
 import { APIClient } from "helpers/api_helper";
+import { getImageUrl } from "helpers/image_cache";
 import { error } from "node:console";
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { Alert, Badge, Button, Card, CardBody, CardHeader, Container, Modal, ModalBody, ModalFooter, ModalHeader } from "reactstrap";
+import { usePermissions } from "Components/Hooks/PermissionHooks";
 
 
 const productAttributes = [
@@ -19,21 +22,27 @@ const productAttributes = [
 const foldersArray = ['Products', 'Images']
 
 const ViewProducts = () => {
+    const { can } = usePermissions();
     document.title = "Catálogo de Productos"
     const axiosHelper = new APIClient();
     const apiUrl = process.env.REACT_APP_API_URL;
 
-    const [products, setProducts] = useState([])
+    const [refreshKey, setRefreshKey] = useState<number>(0)
     const [selectedProduct, setSelectedProduct] = useState<ProductData>()
     const [urlImageProduct, setUrlImageProduct] = useState<string>('')
 
     const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
     const [modals, setModals] = useState({ create: false, details: false, update: false, delete: false });
     const columns = [
-        { header: 'Código', accessor: 'id', isFilterable: true },
-        { header: 'Nombre', accessor: 'name', isFilterable: true },
         {
-            header: 'Categoría', accessor: 'category', isFilterable: true,
+            header: 'Imagen', accessor: 'image', render: (value: string, row: any) => (
+                <CachedImage imageId={value} variant="thumbnail" alt={row.name} style={{ width: '48px', height: '48px' }} />
+            ),
+        },
+        { header: 'Código', accessor: 'id', isFilterable: true, isSortable: true },
+        { header: 'Nombre', accessor: 'name', isFilterable: true, isSortable: true },
+        {
+            header: 'Categoría', accessor: 'category', isFilterable: true, isSortable: true,
             options: [
                 { label: 'Alimentos', value: 'Alimentos' },
                 { label: 'Medicamentos', value: 'Medicamentos' },
@@ -72,11 +81,11 @@ const ViewProducts = () => {
                         <i className="ri-eye-fill align-middle"></i>
                     </Button>
 
-                    <Button className="btn-secondary btn-icon" disabled={row.status !== true} onClick={() => handleClicModal('update', row)}>
+                    <Button className="btn-secondary btn-icon" disabled={row.status !== true || !can('products.update')} onClick={() => handleClicModal('update', row)}>
                         <i className="ri-pencil-fill align-middle"></i>
                     </Button>
 
-                    <Button className="btn-danger btn-icon" disabled={row.status !== true} onClick={() => handleClicModal('delete', row)}>
+                    <Button className="btn-danger btn-icon" disabled={row.status !== true || !can('products.delete')} onClick={() => handleClicModal('delete', row)}>
                         <i className="ri-delete-bin-fill align-middle"></i>
                     </Button>
 
@@ -103,30 +112,22 @@ const ViewProducts = () => {
 
     const handleClicModal = async (modal: any, data: ProductData) => {
         setSelectedProduct(data);
+        setUrlImageProduct('')
         toggleModal(modal)
 
-        if (modal === 'details' || modal === 'update') {
+        // La miniatura del listado no basta para los detalles, se solicita la imagen completa
+        if (modal === 'details') {
             if (data.image) {
                 await fetchImageById(data.image)
             }
         }
     }
 
-    const handleFetchProducts = async () => {
-        await axiosHelper.get(`${apiUrl}/product`)
-            .then((response) => {
-                setProducts(response.data.data)
-            })
-            .catch((error) => {
-                handleError(error, 'Ha ocurrido un error al recuperar los productos, intentelo más tarde')
-            })
-    }
-
     const handleCreateProduct = async (data: ProductData) => {
         await axiosHelper.create(`${apiUrl}/product/create_product`, data)
             .then(() => {
                 showAlert('success', 'Producto creado con éxito')
-                handleFetchProducts()
+                setRefreshKey((key) => key + 1)
             })
             .catch((error) => {
                 handleError(error, 'Ha ocurrido un error al crear el producto, intentelo más tarde')
@@ -140,7 +141,7 @@ const ViewProducts = () => {
         await axiosHelper.put(`${apiUrl}/product/update_product/${data.id}`, data)
             .then(() => {
                 showAlert('success', 'Producto actualizado con éxito')
-                handleFetchProducts()
+                setRefreshKey((key) => key + 1)
             })
             .catch((error) => {
                 handleError(error, 'Ha ocurrido un error al actualizar el producto, intentelo más tarde')
@@ -155,7 +156,7 @@ const ViewProducts = () => {
         await axiosHelper.delete(`${apiUrl}/product/delete_product/${product_id}`)
             .then(() => {
                 showAlert('success', 'Producto desactivado con éxito')
-                handleFetchProducts()
+                setRefreshKey((key) => key + 1)
             })
             .catch((error) => {
                 handleError(error, 'Ha ocurrido un error al desactivar el producto, intentelo más tarde')
@@ -168,25 +169,13 @@ const ViewProducts = () => {
 
     const fetchImageById = async (imageId: string) => {
         try {
-            const response = await axiosHelper.get(`${apiUrl}/google_drive/download_file/${imageId}`, { responseType: 'blob' });
-
-            const imageUrl = URL.createObjectURL(response.data);
+            const imageUrl = await getImageUrl(imageId, 'full');
             setUrlImageProduct(imageUrl);
         } catch (error) {
             console.error('Error al recuperar la imagen: ', error);
         }
     }
 
-    useEffect(() => {
-        handleFetchProducts();
-    }, [])
-
-    useEffect(() => {
-        if (urlImageProduct) {
-            URL.revokeObjectURL(urlImageProduct);
-        }
-    }, [selectedProduct]);
-
 
     return (
         <div className="page-content">
@@ -196,14 +185,26 @@ const ViewProducts = () => {
                 <Card style={{ height: '75vh' }}>
                     <CardHeader>
                         <div className="d-flex">
-                            <Button color="success" className="ms-auto" onClick={() => toggleModal('create')}>
-                                <i className="ri-add-line me-2  " />
-                                Agregar Producto
-                            </Button>
+                            {can('products.create') && (
+                                <Button color="success" className="ms-auto" onClick={() => toggleModal('create')}>
+                                    <i className="ri-add-line me-2  " />
+                                    Agregar Producto
+                                </Button>
+                            )}
                         </div>
                     </CardHeader>
                     <CardBody>
-                        <CustomTable columns={columns} data={products}></CustomTable>
+                        <CustomTable
+                            columns={columns}
+                            exportFileName='productos'
+                            tableId='products'
+                            savedViews={true}
+                            serverSide={{
+                                url: `${apiUrl}/product`,
+                                refreshKey,
+                                onError: (error) => handleError(error, 'Ha ocurrido un error al recuperar los productos, intentelo más tarde'),
+                            }}
+                        />
                     </CardBody>
                 </Card>
             </Container>
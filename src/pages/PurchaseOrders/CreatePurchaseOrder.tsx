@@ -0,0 +1,69 @@
+import BreadCrumb from "Components/Common/BreadCrumb"
+import PurchaseOrderForm, { PurchaseOrderData } from "Components/Common/PurchaseOrderForm"
+import { APIClient } from "helpers/api_helper"
+import { useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { Alert, Card, CardBody, Container } from "reactstrap"
+
+const CreatePurchaseOrder = () => {
+    document.title = 'Nueva Orden de Compra | Almacén General'
+    const apiUrl = process.env.REACT_APP_API_URL;
+    const axiosHelper = new APIClient()
+    const history = useNavigate();
+
+    const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
+
+    const handleError = (error: any, message: string) => {
+        console.error(message, error);
+        setAlertConfig({ visible: true, color: "danger", message });
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    };
+
+    const showAlert = (color: string, message: string) => {
+        setAlertConfig({ visible: true, color: color, message: message })
+        setTimeout(() => {
+            setAlertConfig({ ...alertConfig, visible: false })
+        }, 5000);
+    }
+
+    const handleCreatePurchaseOrder = async (data: PurchaseOrderData) => {
+        await axiosHelper.create(`${apiUrl}/purchase_orders/create_purchase_order`, data)
+            .then(() => {
+                showAlert('success', 'Orden de compra creada con éxito')
+                setTimeout(() => history(`/warehouse/purchase_orders/purchase_order_details/${data.id}`), 2500);
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error guardando la orden de compra, intentelo más tarde')
+            })
+    }
+
+    const handleCancel = () => {
+        if (window.history.length > 1) {
+            history(-1)
+        } else {
+            history('/warehouse/purchase_orders/view_purchase_orders')
+        }
+    }
+
+    return (
+        <div className="page-content">
+            <Container fluid>
+                <BreadCrumb title={"Nueva Orden de Compra"} pageTitle={"Órdenes de Compra"} />
+
+                <Card className="rounded">
+                    <CardBody>
+                        <PurchaseOrderForm onSubmit={handleCreatePurchaseOrder} onCancel={handleCancel} />
+                    </CardBody>
+                </Card>
+            </Container>
+
+            {alertConfig.visible && (
+                <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
+                    {alertConfig.message}
+                </Alert>
+            )}
+        </div>
+    )
+}
+
+export default CreatePurchaseOrder
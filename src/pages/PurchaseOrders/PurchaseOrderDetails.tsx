@@ -0,0 +1,287 @@
+import BreadCrumb from "Components/Common/BreadCrumb"
+import CustomTable from "Components/Common/CustomTable"
+import ObjectDetails from "Components/Common/ObjectDetails"
+import PurchaseOrderForm, { PurchaseOrderData, purchaseOrderStatusOptions } from "Components/Common/PurchaseOrderForm"
+import { APIClient } from "helpers/api_helper"
+import { useEffect, useState } from "react"
+import { useNavigate, useParams } from "react-router-dom"
+import { Alert, Badge, Button, Card, CardBody, CardHeader, Col, Container, Modal, ModalBody, ModalFooter, ModalHeader, Progress, Row } from "reactstrap"
+import { usePermissions } from "Components/Hooks/PermissionHooks"
+
+const purchaseOrderAttributes = [
+    { key: 'id', label: 'Identificador' },
+    { key: 'supplierName', label: 'Proveedor' },
+    { key: 'date', label: 'Fecha' },
+    { key: 'expectedDate', label: 'Entrega estimada' },
+    { key: 'totalPrice', label: 'Precio Total' },
+    { key: 'statusLabel', label: 'Estado' },
+    { key: 'notes', label: 'Notas' },
+]
+
+const PurchaseOrderDetails = () => {
+    const { can } = usePermissions();
+    document.title = 'Detalles de Orden de Compra | Almacén General'
+    const axiosHelper = new APIClient();
+    const history = useNavigate();
+    const apiUrl = process.env.REACT_APP_API_URL;
+    const { id_purchase_order } = useParams();
+
+    const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
+    const [modals, setModals] = useState({ update: false, cancel: false });
+    const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrderData>()
+    const [supplierName, setSupplierName] = useState<string>('')
+    const [orderLines, setOrderLines] = useState([])
+    const [orderIncomes, setOrderIncomes] = useState([])
+
+    const status = purchaseOrderStatusOptions.find((s) => s.value === purchaseOrder?.status);
+    const canReceive = purchaseOrder?.status === 'sent' || purchaseOrder?.status === 'partially_received';
+
+    const linesColumns = [
+        { header: 'Código', accessor: 'id', isFilterable: true },
+        { header: 'Producto', accessor: 'name', isFilterable: true },
+        { header: 'Unidad de Medida', accessor: 'unit_measurement' },
+        { header: 'Precio Unitario', accessor: 'price' },
+        { header: 'Ordenado', accessor: 'quantity' },
+        { header: 'Recibido', accessor: 'received' },
+        { header: 'Pendiente', accessor: 'pending' },
+        {
+            header: 'Avance',
+            accessor: 'progress',
+            render: (value: any, row: any) => (
+                <Progress
+                    value={row.quantity > 0 ? Math.min((row.received / row.quantity) * 100, 100) : 0}
+                    color={row.received >= row.quantity ? 'success' : 'warning'}
+                    style={{ minWidth: '100px' }}
+                />
+            )
+        },
+    ]
+
+    const incomesColumns = [
+        { header: 'Identificador', accessor: 'id' },
+        { header: 'Fecha de entrada', accessor: 'date' },
+        { header: 'Precio Total', accessor: 'totalPrice' },
+        {
+            header: "Acciones",
+            accessor: "action",
+            render: (value: any, row: any) => (
+                <div className="d-flex gap-1">
+                    <Button className="btn-secondary btn-icon" onClick={() => history(`/warehouse/incomes/income_details/${row.id}`)}>
+                        <i className="ri-eye-fill align-middle"></i>
+                    </Button>
+                </div>
+            ),
+        },
+    ]
+
+    const handleError = (error: any, message: string) => {
+        console.error(message, error);
+        setAlertConfig({ visible: true, color: "danger", message });
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    };
+
+    const showAlert = (color: string, message: string) => {
+        setAlertConfig({ visible: true, color: color, message: message })
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    }
+
+    const toggleModal = (modalName: keyof typeof modals, state?: boolean) => {
+        setModals((prev) => ({ ...prev, [modalName]: state ?? !prev[modalName] }));
+    };
+
+    const handleFetchPurchaseOrder = async () => {
+        await axiosHelper.get(`${apiUrl}/purchase_orders/find_purchase_order_id/${id_purchase_order}`)
+            .then((response) => {
+                setPurchaseOrder(response.data.data)
+            })
+            .catch((error) => {
+                handleError(error, 'El servicio no esta disponible, intentelo más tarde')
+            })
+    }
+
+    const handleFetchSupplier = async () => {
+        await axiosHelper.get(`${apiUrl}/supplier/find_supplier_id/${purchaseOrder?.supplier}`)
+            .then((response) => {
+                setSupplierName(response.data.data.name)
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener los datos del proveedor, intentelo más tarde')
+            })
+    }
+
+    const handleFetchOrderLines = async () => {
+        await axiosHelper.create(`${apiUrl}/product/find_products_by_array`, purchaseOrder?.products)
+            .then((response) => {
+                const products = response.data.data;
+                setOrderLines(products.map((product: any) => {
+                    const line = purchaseOrder?.products.find((p) => p.id === product.id);
+                    const received = line?.received || 0;
+                    return {
+                        ...product,
+                        quantity: line?.quantity || 0,
+                        price: line?.price || 0,
+                        received,
+                        pending: Math.max((line?.quantity || 0) - received, 0),
+                    }
+                }))
+            })
+            .catch((error) => {
+                handleError(error, 'El servicio no esta disponible, intentelo más tarde');
+            })
+    }
+
+    const handleFetchOrderIncomes = async () => {
+        await axiosHelper.get(`${apiUrl}/incomes/find_incomes/purchaseOrder/${id_purchase_order}/true`)
+            .then((response) => {
+                setOrderIncomes(response.data.data)
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener las entradas de la orden, intentelo más tarde');
+            })
+    }
+
+    const handleUpdatePurchaseOrder = async (data: PurchaseOrderData, message: string) => {
+        await axiosHelper.put(`${apiUrl}/purchase_orders/update_purchase_order/${data.id}`, data)
+            .then(() => {
+                handleFetchPurchaseOrder();
+                showAlert('success', message)
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al actualizar la orden de compra, intentelo más tarde')
+            })
+            .finally(() => {
+                toggleModal('update', false)
+                toggleModal('cancel', false)
+            })
+    }
+
+    const handleBack = () => {
+        if (window.history.length > 1) {
+            history(-1)
+        } else {
+            history('/warehouse/purchase_orders/view_purchase_orders')
+        }
+    }
+
+    useEffect(() => {
+        handleFetchPurchaseOrder();
+        handleFetchOrderIncomes();
+    }, [])
+
+    useEffect(() => {
+        if (!purchaseOrder) return;
+        handleFetchSupplier();
+        handleFetchOrderLines();
+    }, [purchaseOrder])
+
+    return (
+        <div className="page-content">
+            <Container fluid>
+                <BreadCrumb title={"Detalles de Orden de Compra"} pageTitle={"Órdenes de Compra"} />
+
+                <div className="d-flex gap-2 mb-3 mt-3">
+                    <Button className="me-auto" color="secondary" onClick={handleBack}>
+                        <i className="ri-arrow-left-line me-3"></i>Regresar
+                    </Button>
+
+                    {purchaseOrder?.status === 'draft' && can('purchase_orders.update') && (
+                        <>
+                            <Button color="primary" onClick={() => toggleModal('update')}>
+                                <i className="ri-pencil-line me-2"></i>
+                                Modificar
+                            </Button>
+                            <Button color="info" onClick={() => handleUpdatePurchaseOrder({ ...purchaseOrder, status: 'sent' }, 'Orden de compra marcada como enviada')}>
+                                <i className="ri-send-plane-line me-2"></i>
+                                Marcar como enviada
+                            </Button>
+                        </>
+                    )}
+
+                    {canReceive && can('incomes.create') && (
+                        <Button color="success" onClick={() => history(`/warehouse/incomes/create_income?purchase_order=${purchaseOrder?.id}`)}>
+                            <i className="ri-inbox-archive-line me-2"></i>
+                            Recibir mercancía
+                        </Button>
+                    )}
+
+                    {(purchaseOrder?.status === 'draft' || purchaseOrder?.status === 'sent') && can('purchase_orders.update') && (
+                        <Button color="danger" onClick={() => toggleModal('cancel')}>
+                            <i className="ri-close-circle-line me-2"></i>
+                            Cancelar orden
+                        </Button>
+                    )}
+                </div>
+
+                <Row>
+                    <Col lg={4}>
+                        <Card className="h-100">
+                            <CardHeader className="d-flex">
+                                <h4 className="me-auto">Detalles</h4>
+                                {status && <Badge color={status.color} className="fs-6">{status.label}</Badge>}
+                            </CardHeader>
+                            <CardBody>
+                                {purchaseOrder && (
+                                    <ObjectDetails
+                                        attributes={purchaseOrderAttributes}
+                                        object={{ ...purchaseOrder, supplierName, statusLabel: status?.label }}
+                                        showImage={false}
+                                    />
+                                )}
+                            </CardBody>
+                        </Card>
+                    </Col>
+
+                    <Col lg={8}>
+                        <Card className="h-100">
+                            <CardHeader>
+                                <h4>Productos</h4>
+                            </CardHeader>
+                            <CardBody>
+                                <CustomTable columns={linesColumns} data={orderLines} rowClickable={false} defaultFilterField='name' />
+                            </CardBody>
+                        </Card>
+                    </Col>
+                </Row>
+
+                <Card className="mt-4">
+                    <CardHeader>
+                        <h4>Entradas recibidas</h4>
+                    </CardHeader>
+                    <CardBody>
+                        <CustomTable columns={incomesColumns} data={orderIncomes} showSearchAndFilter={false} rowsPerPage={5} />
+                    </CardBody>
+                </Card>
+
+                <Modal size="xl" isOpen={modals.update} toggle={() => toggleModal('update')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('update')}>Modificar Orden de Compra</ModalHeader>
+                    <ModalBody>
+                        <PurchaseOrderForm
+                            initialData={purchaseOrder}
+                            onSubmit={(data) => handleUpdatePurchaseOrder(data, 'Orden de compra actualizada con éxito')}
+                            onCancel={() => toggleModal('update', false)}
+                        />
+                    </ModalBody>
+                </Modal>
+
+                <Modal isOpen={modals.cancel} toggle={() => toggleModal('cancel')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('cancel')}>Cancelar Orden de Compra</ModalHeader>
+                    <ModalBody>¿Desea cancelar esta orden de compra? Esta acción no se puede deshacer.</ModalBody>
+                    <ModalFooter>
+                        <Button color="danger" onClick={() => toggleModal('cancel', false)}>No</Button>
+                        <Button color="success" onClick={() => purchaseOrder && handleUpdatePurchaseOrder({ ...purchaseOrder, status: 'cancelled' }, 'Orden de compra cancelada')}>
+                            Sí, cancelar orden
+                        </Button>
+                    </ModalFooter>
+                </Modal>
+
+                {alertConfig.visible && (
+                    <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
+                        {alertConfig.message}
+                    </Alert>
+                )}
+            </Container>
+        </div>
+    )
+}
+
+export default PurchaseOrderDetails
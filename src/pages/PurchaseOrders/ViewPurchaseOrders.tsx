@@ -0,0 +1,129 @@
+import BreadCrumb from "Components/Common/BreadCrumb"
+import CustomTable from "Components/Common/CustomTable"
+import { purchaseOrderStatusOptions } from "Components/Common/PurchaseOrderForm"
+import { useWarehouse } from "Components/Hooks/WarehouseHooks"
+import { useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { Alert, Badge, Button, Card, CardBody, CardHeader, Container } from "reactstrap"
+import { usePermissions } from "Components/Hooks/PermissionHooks"
+
+const ViewPurchaseOrders = () => {
+    document.title = 'Órdenes de Compra | Almacén General'
+    const apiUrl = process.env.REACT_APP_API_URL;
+    const history = useNavigate()
+    const { warehouseId } = useWarehouse();
+    const { can } = usePermissions();
+
+    const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
+
+    const columns = [
+        {
+            header: 'Identificador',
+            accessor: 'id',
+            isFilterable: true,
+            isSortable: true
+        },
+        {
+            header: 'Proveedor',
+            accessor: 'supplierName',
+            isFilterable: true,
+            isSortable: true
+        },
+        {
+            header: 'Fecha',
+            accessor: 'date',
+            isFilterable: true,
+            isSortable: true,
+            filterType: 'date' as const
+        },
+        {
+            header: 'Entrega estimada',
+            accessor: 'expectedDate',
+            isFilterable: true,
+            isSortable: true,
+            filterType: 'date' as const
+        },
+        {
+            header: 'Estado',
+            accessor: 'status',
+            isFilterable: true,
+            options: purchaseOrderStatusOptions.map(({ label, value }) => ({ label, value })),
+            render: (value: any) => {
+                const status = purchaseOrderStatusOptions.find((s) => s.value === value);
+                return <Badge color={status?.color}>{status?.label || value}</Badge>
+            }
+        },
+        {
+            header: 'Precio Total',
+            accessor: 'totalPrice',
+            isSortable: true,
+            filterType: 'number' as const
+        },
+        {
+            header: "Acciones",
+            accessor: "action",
+            render: (value: any, row: any) => (
+                <div className="d-flex gap-1">
+                    <Button className="btn-secondary btn-icon" onClick={() => handlePurchaseOrderDetails(row)}>
+                        <i className="ri-eye-fill align-middle"></i>
+                    </Button>
+                </div>
+            ),
+        },
+    ]
+
+    const handleError = (error: any, message: string) => {
+        console.error(message, error);
+        setAlertConfig({ visible: true, color: "danger", message });
+        setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+    };
+
+    const handlePurchaseOrderDetails = (row: any) => {
+        history(`/warehouse/purchase_orders/purchase_order_details/${row.id}`);
+    }
+
+    return (
+        <div className="page-content">
+            <Container fluid>
+                <BreadCrumb title={"Órdenes de Compra"} pageTitle={"Almacén General"} />
+
+                <Card style={{ height: '75vh' }}>
+                    <CardHeader>
+                        <div className="d-flex gap-2">
+                            <h4 className="me-auto">Órdenes de Compra</h4>
+                            {can('purchase_orders.create') && (
+                                <Button color="success" onClick={() => history('/warehouse/purchase_orders/create_purchase_order')}>
+                                    <i className="ri-add-line me-3" />
+                                    Nueva Orden
+                                </Button>
+                            )}
+                        </div>
+                    </CardHeader>
+                    <CardBody>
+                        {warehouseId && (
+                            <CustomTable
+                                columns={columns}
+                                exportFileName='ordenes_de_compra'
+                                tableId='purchase_orders'
+                                savedViews={true}
+                                defaultFilterField={'id'}
+                                serverSide={{
+                                    url: `${apiUrl}/purchase_orders/find_warehouse_purchase_orders/${warehouseId}`,
+                                    onError: (error) => handleError(error, 'Ha ocurrido un error al obtener las órdenes de compra, intentelo más tarde'),
+                                }}
+                            />
+                        )}
+                    </CardBody>
+                </Card>
+            </Container>
+
+            {alertConfig.visible && (
+                <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
+                    {alertConfig.message}
+                </Alert>
+            )}
+        </div>
+    )
+}
+
+export default ViewPurchaseOrders;
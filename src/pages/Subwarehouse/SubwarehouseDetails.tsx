@@ -2,10 +2,16 @@ import BreadCrumb from "Components/Common/BreadCrumb";
 import CustomTable from "Components/Common/CustomTable";
 import ObjectDetails from "Components/Common/ObjectDetails";
 import { SubwarehouseData } from "Components/Common/SubwarehouseForm";
+import ConsumptionForm, { consumptionReasonOptions } from "Components/Common/ConsumptionForm";
+import { OutcomeData, TransferReception } from "Components/Common/OutcomeForm";
+import TransferReceptionForm, { receptionLosses } from "Components/Common/TransferReceptionForm";
+import OutcomeForm from "Components/Common/OutcomeForm";
 import { APIClient } from "helpers/api_helper";
 import { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
-import { Button, Card, CardBody, CardHeader, Col, Container, Row } from "reactstrap";
+import { Alert, Button, Card, CardBody, CardHeader, Col, Container, Modal, ModalBody, ModalHeader, Nav, NavItem, NavLink, Row, TabContent, TabPane } from "reactstrap";
+import classnames from "classnames";
+import { usePermissions } from "Components/Hooks/PermissionHooks";
 
 const subwarehouseAttributes = [
     { key: 'id', label: 'Identificador' },
@@ -16,6 +22,7 @@ const subwarehouseAttributes = [
 ]
 
 const SubwarehouseDetails = () => {
+    const { can, isManagerOf } = usePermissions();
     document.title = "Detalles de Subalmacén"
     const apiUrl = process.env.REACT_APP_API_URL;
     const history = useNavigate();
@@ -65,7 +72,7 @@ const SubwarehouseDetails = () => {
             accessor: 'action',
             render: (value: any, row: any) => (
                 <div className="d-flex gap-1">
-                    <Button className="btn-secondary btn-icon">
+                    <Button className="btn-secondary btn-icon" onClick={() => handleClicOutcomeDetails(row)}>
                         <i className="ri-eye-fill align-middle" />
                     </Button>
                 </div>
@@ -73,12 +80,70 @@ const SubwarehouseDetails = () => {
         }
     ]
 
+    const consumptionsColumns = [
+        { header: 'Identificador', accessor: 'id', isFilterable: true },
+        { header: 'Fecha de Consumo', accessor: 'date', isFilterable: true },
+        {
+            header: 'Motivo',
+            accessor: 'reason',
+            isFilterable: true,
+            render: (value: string) => consumptionReasonOptions.find((r) => r.value === value)?.label || value,
+            options: consumptionReasonOptions
+        },
+        { header: 'Responsable', accessor: 'responsible', isFilterable: true },
+        {
+            header: 'Acciones',
+            accessor: 'action',
+            render: (value: any, row: any) => (
+                <div className="d-flex gap-1">
+                    <Button className="btn-secondary btn-icon" onClick={() => handleClicOutcomeDetails(row)}>
+                        <i className="ri-eye-fill align-middle" />
+                    </Button>
+                </div>
+            )
+        }
+    ]
+
+    const transitColumns = [
+        { header: 'Identificador', accessor: 'id' },
+        { header: 'Fecha de envío', accessor: 'date' },
+        { header: 'Origen', accessor: 'warehouseOrigin' },
+        {
+            header: 'Productos',
+            accessor: 'products',
+            render: (value: any[]) => value.length
+        },
+        {
+            header: 'Acciones',
+            accessor: 'action',
+            render: (value: any, row: any) => (
+                <div className="d-flex gap-1">
+                    <Button className="btn-secondary btn-icon" onClick={() => handleClicOutcomeDetails(row)}>
+                        <i className="ri-eye-fill align-middle" />
+                    </Button>
+                    <Button color="success" size="sm" onClick={() => handleOpenReception(row)} disabled={!subwarehouseDetails?.status || !canConfirmReception}>
+                        <i className="ri-checkbox-circle-line me-1" />
+                        Confirmar recepción
+                    </Button>
+                </div>
+            )
+        }
+    ]
+
     const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
     const { id_subwarehouse } = useParams();
     const [subwarehouseDetails, setSubwarehouseDetails] = useState<SubwarehouseData>();
     const [subwarehouseInventory, setSubwarehouseInventory] = useState([])
     const [subwarehouseIncomes, setSubwarehouseIncomes] = useState([])
     const [subwarehouseOutcomes, setSubwarehouseOutcomes] = useState([])
+    const [subwarehouseConsumptions, setSubwarehouseConsumptions] = useState([])
+    const [transfersInTransit, setTransfersInTransit] = useState([])
+    const [selectedTransfer, setSelectedTransfer] = useState<OutcomeData>()
+    const [modals, setModals] = useState({ consumption: false, reception: false, transfer: false });
+    const [activeTab, setActiveTab] = useState('incomes');
+
+    // Los traspasos quedan en tránsito hasta que los confirma el responsable del subalmacén de destino
+    const canConfirmReception = can('transfers.receive') && isManagerOf(subwarehouseDetails?.manager);
 
     const handleError = (error: any, message: string) => {
         console.error(message, error);
@@ -91,6 +156,10 @@ const SubwarehouseDetails = () => {
         setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
     }
 
+    const toggleModal = (modalName: keyof typeof modals, state?: boolean) => {
+        setModals((prev) => ({ ...prev, [modalName]: state ?? !prev[modalName] }));
+    };
+
     const handleFetchSubwarehouseDetails = async () => {
         await axiosHelper.get(`${apiUrl}/warehouse/find_id/${id_subwarehouse}`)
             .then((response) => {
@@ -124,13 +193,86 @@ const SubwarehouseDetails = () => {
     const handleFetchWarehouseOutcomes = async () => {
         await axiosHelper.get(`${apiUrl}/outcomes/find_warehouse_outcomes/${id_subwarehouse}`)
             .then((response) => {
-                setSubwarehouseOutcomes(response.data.data)
+                const outcomes = response.data.data;
+                setSubwarehouseOutcomes(outcomes.filter((obj: any) => obj.outcomeType !== 'consumption'))
+                setSubwarehouseConsumptions(outcomes.filter((obj: any) => obj.outcomeType === 'consumption'))
             })
             .catch((error) => {
                 handleError(error, 'Ha ocurrido un error al obtener las salidas, intentelo más tarde')
             })
     }
 
+    const handleFetchTransfersInTransit = async () => {
+        await axiosHelper.get(`${apiUrl}/outcomes/find_outcomes/warehouseDestiny/${id_subwarehouse}/true`)
+            .then((response) => {
+                setTransfersInTransit(response.data.data.filter((obj: OutcomeData) => obj.outcomeType === 'transfer' && obj.transferStatus === 'in_transit'))
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener los traspasos en tránsito, intentelo más tarde')
+            })
+    }
+
+    const handleOpenReception = (transfer: OutcomeData) => {
+        if (!canConfirmReception) {
+            handleError(transfer, `Solo el responsable del subalmacén (${subwarehouseDetails?.manager || 'sin asignar'}) puede confirmar la recepción`)
+            return;
+        }
+        setSelectedTransfer(transfer)
+        toggleModal('reception', true)
+    }
+
+    // El backend ingresa lo recibido al subalmacén y registra los faltantes y daños como pérdida del origen
+    const handleConfirmReception = async (reception: TransferReception) => {
+        if (!selectedTransfer) return;
+
+        await axiosHelper.put(`${apiUrl}/outcomes/confirm_transfer/${selectedTransfer.id}`, { ...reception, losses: receptionLosses(selectedTransfer, reception) })
+            .then(() => {
+                showAlert('success', 'La recepción del traspaso se ha confirmado con éxito')
+                handleFetchWarehouseInventory();
+                handleFetchWarehouseIncomes();
+                handleFetchTransfersInTransit();
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al confirmar la recepción, intentelo más tarde')
+            })
+            .finally(() => {
+                toggleModal('reception', false)
+                setSelectedTransfer(undefined)
+            })
+    }
+
+    const handleCreateTransfer = async (data: OutcomeData) => {
+        await axiosHelper.create(`${apiUrl}/outcomes/create_outcome/${true}/${data.outcomeType}`, data)
+            .then(() => {
+                showAlert('success', 'El traspaso se ha registrado con éxito')
+                handleFetchWarehouseInventory();
+                handleFetchWarehouseOutcomes();
+                setActiveTab('outcomes')
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al registrar el traspaso, intentelo más tarde')
+            })
+            .finally(() => {
+                toggleModal('transfer', false)
+            })
+    }
+
+    const handleCreateConsumption = async (data: OutcomeData) => {
+        await axiosHelper.create(`${apiUrl}/outcomes/create_outcome/${true}/${data.outcomeType}`, data)
+            .then((response) => {
+                showAlert('success', 'El consumo se ha registrado con éxito')
+                handleFetchWarehouseInventory();
+                handleFetchWarehouseOutcomes();
+                setActiveTab('consumptions')
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al registrar el consumo, intentelo más tarde')
+            })
+            .finally(() => {
+                toggleModal('consumption', false)
+            })
+    }
+
     const handleClicProductDetails = (row: any) => {
         history(`/warehouse/inventory/product_details?warehouse=${id_subwarehouse}&product=${row.id}`)
     }
@@ -139,6 +281,10 @@ const SubwarehouseDetails = () => {
         history(`/warehouse/incomes/income_details/${row.id}`)
     }
 
+    const handleClicOutcomeDetails = (row: any) => {
+        history(`/warehouse/outcomes/outcome_details/${row.id}`)
+    }
+
     const handleReturn = () => {
         if (window.history.length > 1) {
             history(-1);
@@ -152,6 +298,7 @@ const SubwarehouseDetails = () => {
         handleFetchWarehouseInventory();
         handleFetchWarehouseIncomes();
         handleFetchWarehouseOutcomes();
+        handleFetchTransfersInTransit();
     }, [])
 
     return (
@@ -166,6 +313,14 @@ const SubwarehouseDetails = () => {
                             Regresar
                         </Button>
                     </div>
+                    <Button color="primary" onClick={() => toggleModal('transfer')} disabled={!subwarehouseDetails?.status || !can('subwarehouses.operate')}>
+                        <i className="ri-arrow-left-right-line me-2"></i>
+                        Traspasar
+                    </Button>
+                    <Button color="success" onClick={() => toggleModal('consumption')} disabled={!subwarehouseDetails?.status || !can('subwarehouses.operate')}>
+                        <i className="ri-subtract-line me-2"></i>
+                        Registrar Consumo
+                    </Button>
                 </div>
 
                 <div className="mt-3">
@@ -196,33 +351,105 @@ const SubwarehouseDetails = () => {
                     </Row>
                 </div>
 
+                {transfersInTransit.length > 0 && (
+                    <Card className="mt-4">
+                        <CardHeader>
+                            <h4>Traspasos en tránsito</h4>
+                        </CardHeader>
+                        <CardBody>
+                            <CustomTable columns={transitColumns} data={transfersInTransit} showSearchAndFilter={false} rowsPerPage={5} />
+                        </CardBody>
+                    </Card>
+                )}
+
                 <div className=" mt-4">
-                    <Row>
-                        <Col lg={6}>
-                            <Card className="h-100">
-                                <CardHeader>
-                                    <h4>Entradas</h4>
-                                </CardHeader>
-                                <CardBody>
+                    <Card>
+                        <CardHeader>
+                            <Nav className="nav-tabs-custom card-header-tabs border-bottom-0">
+                                <NavItem>
+                                    <NavLink
+                                        href="#"
+                                        className={classnames({ active: activeTab === 'incomes' })}
+                                        onClick={() => setActiveTab('incomes')}
+                                    >
+                                        Entradas
+                                    </NavLink>
+                                </NavItem>
+                                <NavItem>
+                                    <NavLink
+                                        href="#"
+                                        className={classnames({ active: activeTab === 'outcomes' })}
+                                        onClick={() => setActiveTab('outcomes')}
+                                    >
+                                        Salidas
+                                    </NavLink>
+                                </NavItem>
+                                <NavItem>
+                                    <NavLink
+                                        href="#"
+                                        className={classnames({ active: activeTab === 'consumptions' })}
+                                        onClick={() => setActiveTab('consumptions')}
+                                    >
+                                        Consumos
+                                    </NavLink>
+                                </NavItem>
+                            </Nav>
+                        </CardHeader>
+                        <CardBody>
+                            <TabContent activeTab={activeTab}>
+                                <TabPane tabId="incomes">
                                     <CustomTable columns={incomesColumns} data={subwarehouseIncomes} rowsPerPage={5} />
-                                </CardBody>
-                            </Card>
-                        </Col>
-
-                        <Col lg={6}>
-                            <Card className="h-100">
-                                <CardHeader>
-                                    <h4>Salidas</h4>
-                                </CardHeader>
-                                <CardBody>
+                                </TabPane>
+                                <TabPane tabId="outcomes">
                                     <CustomTable columns={outcomesColumns} data={subwarehouseOutcomes} rowsPerPage={5} />
-                                </CardBody>
-                            </Card>
-                        </Col>
-                    </Row>
+                                </TabPane>
+                                <TabPane tabId="consumptions">
+                                    <CustomTable columns={consumptionsColumns} data={subwarehouseConsumptions} rowsPerPage={5} />
+                                </TabPane>
+                            </TabContent>
+                        </CardBody>
+                    </Card>
                 </div>
 
+                <Modal size="xl" isOpen={modals.consumption} toggle={() => toggleModal('consumption')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('consumption')}>Registrar Consumo</ModalHeader>
+                    <ModalBody>
+                        {subwarehouseDetails && (
+                            <ConsumptionForm subwarehouse={subwarehouseDetails} onSubmit={handleCreateConsumption} onCancel={() => toggleModal('consumption', false)} />
+                        )}
+                    </ModalBody>
+                </Modal>
+
+                <Modal size="xl" isOpen={modals.transfer} toggle={() => toggleModal('transfer')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('transfer')}>Nuevo Traspaso</ModalHeader>
+                    <ModalBody>
+                        {subwarehouseDetails && (
+                            <OutcomeForm origin={subwarehouseDetails} onSubmit={handleCreateTransfer} onCancel={() => toggleModal('transfer', false)} />
+                        )}
+                    </ModalBody>
+                </Modal>
+
+                <Modal size="xl" isOpen={modals.reception} toggle={() => toggleModal('reception')} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal('reception')}>Confirmar Recepción de Traspaso {selectedTransfer?.id}</ModalHeader>
+                    <ModalBody>
+                        {selectedTransfer && subwarehouseDetails && (
+                            <TransferReceptionForm
+                                transfer={selectedTransfer}
+                                manager={subwarehouseDetails.manager}
+                                onSubmit={handleConfirmReception}
+                                onCancel={() => toggleModal('reception', false)}
+                            />
+                        )}
+                    </ModalBody>
+                </Modal>
+
             </Container>
+
+            {alertConfig.visible && (
+                <Alert color={alertConfig.color} className="position-fixed bottom-0 start-50 translate-middle-x p-3">
+                    {alertConfig.message}
+                </Alert>
+            )}
         </div>
     )
 }
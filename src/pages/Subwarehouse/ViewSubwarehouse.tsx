@@ -3,9 +3,12 @@ import CustomTable from "Components/Common/CustomTable";
 import ObjectDetails from "Components/Common/ObjectDetails";
 import SubwarehouseForm, { SubwarehouseData } from "Components/Common/SubwarehouseForm";
 import { APIClient } from "helpers/api_helper";
+import { useWarehouse } from "Components/Hooks/WarehouseHooks";
+import { isSubwarehouseOf } from "helpers/warehouse_helper";
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Alert, Badge, Button, Card, CardBody, CardHeader, Container, Modal, ModalBody, ModalFooter, ModalHeader } from "reactstrap";
+import { usePermissions } from "Components/Hooks/PermissionHooks";
 
 
 const ViewSubwarehouse = () => {
@@ -13,13 +16,14 @@ const ViewSubwarehouse = () => {
     const apiUrl = process.env.REACT_APP_API_URL;
     const axiosHelper = new APIClient();
     const history = useNavigate();
-    const warehouseId = 'AG001'
+    const { warehouseId } = useWarehouse();
+    const { can } = usePermissions();
 
     const columns = [
-        { header: 'Código', accessor: 'id', isFilterable: true },
-        { header: 'Nombre', accessor: 'name', isFilterable: true },
-        { header: 'Responsable', accessor: 'manager', isFilterable: true },
-        { header: 'Ubicación', accessor: 'location', isFilterable: true },
+        { header: 'Código', accessor: 'id', isFilterable: true, isSortable: true },
+        { header: 'Nombre', accessor: 'name', isFilterable: true, isSortable: true },
+        { header: 'Responsable', accessor: 'manager', isFilterable: true, isSortable: true },
+        { header: 'Ubicación', accessor: 'location', isFilterable: true, isSortable: true },
         {
             header: "Estado",
             accessor: "status",
@@ -43,11 +47,11 @@ const ViewSubwarehouse = () => {
                         <i className="ri-eye-fill align-middle" />
                     </Button>
 
-                    <Button className="btn-secondary btn-icon" disabled={!row.status} onClick={() => toggleModalUpdate(row)}>
+                    <Button className="btn-secondary btn-icon" disabled={!row.status || !can('subwarehouses.update')} onClick={() => toggleModalUpdate(row)}>
                         <i className="ri-pencil-fill align-middle" />
                     </Button>
 
-                    <Button className="btn-danger btn-icon" disabled={!row.status} onClick={() => toggleModalDelete(row)}>
+                    <Button className="btn-danger btn-icon" disabled={!row.status || !can('subwarehouses.delete')} onClick={() => toggleModalDelete(row)}>
                         <i className="ri-delete-bin-fill align-middle" />
                     </Button>
                 </div>
@@ -95,7 +99,7 @@ const ViewSubwarehouse = () => {
                 const warehouses = response.data.data;
                 setWarehouses(
                     warehouses.filter(function (obj: any) {
-                        return obj.id !== warehouseId
+                        return isSubwarehouseOf(obj, warehouseId)
                     })
                 )
             })
@@ -147,8 +151,9 @@ const ViewSubwarehouse = () => {
     }
 
     useEffect(() => {
+        if (!warehouseId) return;
         handleFetchSubwarehouses()
-    }, [])
+    }, [warehouseId])
 
     return (
         <div className="page-content">
@@ -159,14 +164,16 @@ const ViewSubwarehouse = () => {
                 <Card style={{ height: '75vh' }}>
                     <CardHeader>
                         <div className="d-flex">
-                            <Button className="ms-auto" color="success" onClick={() => toggleModal('create')}>
-                                <i className="ri-add-line me-2" />
-                                Agregar Subalmacén
-                            </Button>
+                            {can('subwarehouses.create') && (
+                                <Button className="ms-auto" color="success" onClick={() => toggleModal('create')}>
+                                    <i className="ri-add-line me-2" />
+                                    Agregar Subalmacén
+                                </Button>
+                            )}
                         </div>
                     </CardHeader>
                     <CardBody>
-                        <CustomTable columns={columns} data={warehouses} defaultFilterField='name'></CustomTable>
+                        <CustomTable columns={columns} data={warehouses} exportFileName='subalmacenes' tableId='subwarehouses' savedViews={true} defaultFilterField='name'></CustomTable>
                     </CardBody>
                 </Card>
 
@@ -3,10 +3,14 @@ import CustomTable from "Components/Common/CustomTable";
 import { IncomeData } from "Components/Common/IncomeForm";
 import ObjectDetails from "Components/Common/ObjectDetails";
 import SupplierForm from "Components/Common/SupplierForm";
+import SupplierPaymentForm, { SupplierPaymentData, paymentMethodOptions } from "Components/Common/SupplierPaymentForm";
+import { addDays, daysUntil } from "helpers/date_helper";
+import { calculateTaxes } from "helpers/tax_helper";
 import { APIClient } from "helpers/api_helper";
 import { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
-import { Alert, Button, Card, CardBody, CardHeader, Col, Container, Modal, ModalBody, ModalFooter, ModalHeader, Row, Spinner } from "reactstrap";
+import { Alert, Badge, Button, Card, CardBody, CardHeader, Col, Container, Modal, ModalBody, ModalFooter, ModalHeader, Row, Spinner } from "reactstrap";
+import { usePermissions } from "Components/Hooks/PermissionHooks";
 
 const supplierAttributes = [
     { key: 'id', label: 'Identificador' },
@@ -19,6 +23,14 @@ const supplierAttributes = [
     { key: 'status', label: 'Estado' }
 ];
 
+// La antigüedad se calcula con los días vencidos; las entradas aún no vencidas caen en el primer rango
+const agingBuckets = [
+    { label: '0-30 días', min: 0, max: 30 },
+    { label: '31-60 días', min: 31, max: 60 },
+    { label: '61-90 días', min: 61, max: 90 },
+    { label: 'Más de 90 días', min: 91, max: Infinity },
+];
+
 export interface SupplierData {
     id: string;
     name: string;
@@ -28,10 +40,12 @@ export interface SupplierData {
     supplier_type: string;
     status: boolean;
     rnc: string;
+    taxRegistered?: boolean;
 }
 
 
 const SupplierDetails = () => {
+    const { can } = usePermissions();
     document.title = 'Supplier details | Suppliers';
     const apiUrl = process.env.REACT_APP_API_URL;
     const { id_supplier } = useParams();
@@ -39,16 +53,68 @@ const SupplierDetails = () => {
     const history = useNavigate();
 
     const [supplierDetails, setSupplierDetails] = useState<SupplierData | undefined>(undefined);
-    const [supplierIncomes, setSupplierIncomes] = useState([]);
+    const [supplierIncomes, setSupplierIncomes] = useState<any[]>([]);
+    const [supplierPayments, setSupplierPayments] = useState<any[]>([]);
+    const [supplierReturns, setSupplierReturns] = useState<any[]>([]);
     const [alertConfig, setAlertConfig] = useState({ visible: false, color: "", message: "" });
     const [loading, setLoading] = useState<boolean>(true);
-    const [modals, setModals] = useState({ update: false, delete: false });
+    const [modals, setModals] = useState({ update: false, delete: false, payment: false });
+
+    // Las devoluciones se acreditan al precio e impuesto con que entró cada producto
+    const returnedAmount = (income: any) => {
+        const lines = supplierReturns
+            .filter((outcome) => outcome.relatedIncome === income.id)
+            .flatMap((outcome) => outcome.products)
+            .map((returned: any) => {
+                const line = income.products.find((p: any) => p.id === returned.id);
+                return { quantity: returned.quantity, price: line?.price ?? returned.price, taxRate: line?.taxRate };
+            });
+        return lines.length > 0 ? calculateTaxes(lines).total : 0;
+    };
+
+    // Solo las entradas a crédito vigentes generan cuentas por pagar; las de contado y las anuladas no tienen saldo
+    const isPayable = (income: any) => income.paymentTerms?.type === 'credit' && income.status !== false;
+
+    const incomesWithBalance = supplierIncomes.map((income) => {
+        const paid = supplierPayments.reduce((sum, payment) =>
+            sum + payment.applications.filter((a: any) => a.income === income.id).reduce((s: number, a: any) => s + a.amount, 0), 0);
+        const returned = returnedAmount(income);
+        const dueDate = isPayable(income) ? addDays(income.date, income.paymentTerms.creditDays || 0) : '';
+        const balance = isPayable(income) ? Math.max(income.totalPrice - paid - returned, 0) : 0;
+        return {
+            ...income,
+            paymentType: income.paymentTerms?.type === 'credit' ? `Crédito ${income.paymentTerms.creditDays} días` : 'Contado',
+            dueDate,
+            paid: parseFloat(paid.toFixed(2)),
+            returned: parseFloat(returned.toFixed(2)),
+            balance: parseFloat(balance.toFixed(2)),
+            daysOverdue: dueDate ? Math.max(-(daysUntil(dueDate) ?? 0), 0) : 0,
+        }
+    });
+    const outstandingIncomes = incomesWithBalance.filter((income: any) => isPayable(income) && income.balance > 0);
+    const outstandingBalance = outstandingIncomes.reduce((sum: number, income: any) => sum + income.balance, 0);
 
     const incomesColumns = [
         { header: 'Identificador', accessor: 'id', isFilterable: true },
         { header: 'Fecha de entrada', accessor: 'date', isFilterable: true },
         { header: 'Precio Total', accessor: 'totalPrice' },
         { header: 'Tipo de entrada', accessor: 'incomeType', isFilterable: true, options: [{ label: 'Compra', value: 'Compra' }] },
+        { header: 'Forma de pago', accessor: 'paymentType' },
+        { header: 'Vencimiento', accessor: 'dueDate' },
+        { header: 'Devuelto', accessor: 'returned' },
+        {
+            header: 'Saldo',
+            accessor: 'balance',
+            render: (value: any, row: any) => (
+                row.status === false
+                    ? <Badge color="danger">Anulada</Badge>
+                    : row.paymentTerms?.type !== 'credit'
+                        ? <Badge color="info">Contado</Badge>
+                        : value > 0
+                            ? <span className={row.daysOverdue > 0 ? 'text-danger' : ''}>${value.toFixed(2)}</span>
+                            : <Badge color="success">Pagada</Badge>
+            )
+        },
         {
             header: "Acciones",
             accessor: "action",
@@ -62,6 +128,23 @@ const SupplierDetails = () => {
           },
     ]
 
+    const paymentsColumns = [
+        { header: 'Identificador', accessor: 'id', isFilterable: true },
+        { header: 'Fecha', accessor: 'date', isFilterable: true },
+        {
+            header: 'Método',
+            accessor: 'method',
+            render: (value: any) => paymentMethodOptions.find((m) => m.value === value)?.label || value
+        },
+        { header: 'Referencia', accessor: 'reference' },
+        {
+            header: 'Entradas',
+            accessor: 'applications',
+            render: (value: any, row: any) => row.applications.map((a: any) => `${a.income} ($${a.amount.toFixed(2)})`).join(', ')
+        },
+        { header: 'Monto', accessor: 'amount' },
+    ]
+
     const toggleModal = (modalName: keyof typeof modals, state?: boolean) => {
         setModals((prev) => ({ ...prev, [modalName]: state ?? !prev[modalName] }));
     };
@@ -93,6 +176,39 @@ const SupplierDetails = () => {
             })
     }
 
+    const handleGetPayments = async () => {
+        await axiosHelper.get(`${apiUrl}/supplier_payments/find_supplier_payments/${id_supplier}`)
+            .then((response) => {
+                setSupplierPayments(response.data.data)
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener los pagos del proveedor, intentelo más tarde');
+            })
+    }
+
+    const handleGetReturns = async () => {
+        await axiosHelper.get(`${apiUrl}/outcomes/find_outcomes/outcomeType/supplier_return/true`)
+            .then((response) => {
+                setSupplierReturns(response.data.data)
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al obtener las devoluciones del proveedor, intentelo más tarde');
+            })
+    }
+
+    const handleCreatePayment = async (paymentData: SupplierPaymentData) => {
+        await axiosHelper.create(`${apiUrl}/supplier_payments/create_supplier_payment`, paymentData)
+            .then(() => {
+                setAlertConfig({ visible: true, color: "success", message: "Pago registrado correctamente." });
+                setTimeout(() => setAlertConfig({ ...alertConfig, visible: false }), 5000);
+                toggleModal("payment", false);
+                handleGetPayments();
+            })
+            .catch((error) => {
+                handleError(error, 'Ha ocurrido un error al registrar el pago, intentelo más tarde');
+            })
+    }
+
     const handleUpdateSupplier = async (supplierData: SupplierData) => {
         try {
             await axiosHelper.put(`${apiUrl}/supplier/update_supplier/${supplierData.id}`, supplierData);
@@ -132,6 +248,8 @@ const SupplierDetails = () => {
     useEffect(() => {
         handleGetSupplierDetails();
         handleGetIncomes();
+        handleGetPayments();
+        handleGetReturns();
     }, []);
 
     return (
@@ -143,12 +261,15 @@ const SupplierDetails = () => {
                     <Button className="me-auto" color="secondary" onClick={handleBack}>
                         <i className="ri-arrow-left-line me-3"></i>Regresar
                     </Button>
-                    <Button color="danger" onClick={() => toggleModal("delete")} disabled={!supplierDetails?.status}>
+                    <Button color="danger" onClick={() => toggleModal("delete")} disabled={!supplierDetails?.status || !can('suppliers.delete')}>
                         <i className="ri-delete-bin-line me-3"></i>Desactivar Proveedor
                     </Button>
-                    <Button color="success" onClick={() => toggleModal("update")}>
+                    <Button color="success" onClick={() => toggleModal("update")} disabled={!can('suppliers.update')}>
                         <i className="ri-pencil-line me-3"></i>Modificar Proveedor
                     </Button>
+                    <Button color="primary" onClick={() => toggleModal("payment")} disabled={outstandingIncomes.length === 0 || !can('suppliers.update')}>
+                        <i className="ri-money-dollar-circle-line me-3"></i>Registrar Pago
+                    </Button>
                     <Button color="secondary">
                         <i className="ri-mail-line me-3"></i>Enviar Email
                     </Button>
@@ -174,13 +295,49 @@ const SupplierDetails = () => {
                             <CardHeader><h4>Historial de Altas | Compras</h4></CardHeader>
                             <CardBody>
                                 {supplierIncomes && (
-                                    <CustomTable columns={incomesColumns} data={supplierIncomes} showSearchAndFilter={true} defaultFilterField='supplier' rowClickable={false} rowsPerPage={15} />
+                                    <CustomTable columns={incomesColumns} data={incomesWithBalance} showSearchAndFilter={true} defaultFilterField='supplier' rowClickable={false} rowsPerPage={15} />
                                 )}
                             </CardBody>
                         </Card>
                     </Col>
                 </Row>
 
+                <Row className="mt-4">
+                    <Col lg={3}>
+                        <Card className="h-100">
+                            <CardHeader><h4>Cuentas por pagar</h4></CardHeader>
+                            <CardBody>
+                                <p className="text-muted mb-1">Saldo pendiente</p>
+                                <h3 className={outstandingBalance > 0 ? 'text-danger' : ''}>${outstandingBalance.toFixed(2)}</h3>
+
+                                <table className="table mt-3 mb-0">
+                                    <tbody>
+                                        {agingBuckets.map((bucket) => (
+                                            <tr key={bucket.label}>
+                                                <td className="fw-medium">{bucket.label}</td>
+                                                <td className="text-end">
+                                                    ${outstandingIncomes
+                                                        .filter((income) => income.daysOverdue >= bucket.min && income.daysOverdue <= bucket.max)
+                                                        .reduce((sum, income) => sum + income.balance, 0)
+                                                        .toFixed(2)}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </CardBody>
+                        </Card>
+                    </Col>
+                    <Col lg={9}>
+                        <Card className="h-100">
+                            <CardHeader><h4>Historial de Pagos</h4></CardHeader>
+                            <CardBody>
+                                <CustomTable columns={paymentsColumns} data={supplierPayments} showSearchAndFilter={false} rowClickable={false} rowsPerPage={5} />
+                            </CardBody>
+                        </Card>
+                    </Col>
+                </Row>
+
                 {/* Modales */}
                 <Modal size="lg" isOpen={modals.update} toggle={() => toggleModal("update")} backdrop='static' keyboard={false} centered>
                     <ModalHeader toggle={() => toggleModal("update")}>Modificar Proveedor</ModalHeader>
@@ -189,6 +346,18 @@ const SupplierDetails = () => {
                     </ModalBody>
                 </Modal>
 
+                <Modal size="xl" isOpen={modals.payment} toggle={() => toggleModal("payment")} backdrop='static' keyboard={false} centered>
+                    <ModalHeader toggle={() => toggleModal("payment")}>Registrar Pago</ModalHeader>
+                    <ModalBody>
+                        <SupplierPaymentForm
+                            supplierId={id_supplier || ''}
+                            outstandingIncomes={outstandingIncomes}
+                            onSubmit={handleCreatePayment}
+                            onCancel={() => toggleModal("payment", false)}
+                        />
+                    </ModalBody>
+                </Modal>
+
                 <Modal isOpen={modals.delete} toggle={() => toggleModal("delete")} backdrop='static' keyboard={false} centered>
                     <ModalHeader toggle={() => toggleModal("delete")}>Desactivar Proveedor</ModalHeader>
                     <ModalBody>¿Desea desactivar este proveedor?</ModalBody>
@@ -7,6 +7,7 @@ import { Alert, Badge, Button, Card, CardBody, CardHeader, Container, Modal, Mod
 import { SupplierData } from "./SupplierDetails";
 import { size } from "lodash";
 import SupplierForm from "Components/Common/SupplierForm";
+import { usePermissions } from "Components/Hooks/PermissionHooks";
 
 
 
@@ -15,6 +16,7 @@ const Suppliers = () => {
     const apiUrl = process.env.REACT_APP_API_URL;
     const axiosHelper = new APIClient();
     const history = useNavigate();
+    const { can } = usePermissions();
 
 
     const [suppliersData, setSuppliersData] = useState([]);
@@ -42,17 +44,20 @@ const Suppliers = () => {
         {
             header: 'Código',
             accessor: 'id',
-            isFilterable: true
+            isFilterable: true,
+            isSortable: true
         },
         {
             header: 'Proveedor',
             accessor: 'name',
-            isFilterable: true
+            isFilterable: true,
+            isSortable: true
         },
         {
             header: 'Categoría',
             accessor: 'supplier_type',
             isFilterable: true,
+            isSortable: true,
             options: [
                 { label: 'Alimentos', value: 'Alimentos' },
                 { label: 'Medicamentos', value: 'Medicamentos' },
@@ -91,11 +96,11 @@ const Suppliers = () => {
                         <i className="ri-eye-fill align-middle" />
                     </Button>
 
-                    <Button className="btn-secondary btn-icon" disabled={!row.status} onClick={() => handleModalUpdateSupplier(row)}>
+                    <Button className="btn-secondary btn-icon" disabled={!row.status || !can('suppliers.update')} onClick={() => handleModalUpdateSupplier(row)}>
                         <i className="ri-pencil-fill align-middle" />
                     </Button>
 
-                    <Button className="btn-danger btn-icon" disabled={!row.status} onClick={() => handleModalDeactivateSupplier(row)}>
+                    <Button className="btn-danger btn-icon" disabled={!row.status || !can('suppliers.delete')} onClick={() => handleModalDeactivateSupplier(row)}>
                         <i className="ri-delete-bin-fill align-middle" />
                     </Button>
                 </div>
@@ -183,15 +188,17 @@ const Suppliers = () => {
                         <div className="d-flex gap-2">
                             <h4 className="me-auto">Proveedores</h4>
 
-                            <Button color="success" onClick={() => toggleModal('create')}>
-                                <i className="ri-add-line me-3" />
-                                Agregar Proveedor
-                            </Button>
+                            {can('suppliers.create') && (
+                                <Button color="success" onClick={() => toggleModal('create')}>
+                                    <i className="ri-add-line me-3" />
+                                    Agregar Proveedor
+                                </Button>
+                            )}
                         </div>
 
                     </CardHeader>
                     <CardBody>
-                        <CustomTable columns={supplierColumn} data={suppliersData} showSearchAndFilter={true} defaultFilterField='name' />
+                        <CustomTable columns={supplierColumn} data={suppliersData} exportFileName='proveedores' tableId='suppliers' savedViews={true} showSearchAndFilter={true} defaultFilterField='name' />
                     </CardBody>
                 </Card>
 
@@ -0,0 +1,45 @@
+import { createSlice } from "@reduxjs/toolkit";
+
+export interface ProductCategory {
+  label: string;
+  value: string;
+  lotTracked: boolean; // Los productos de la categoría registran lote y fecha de caducidad en cada entrada
+  taxRate: number; // Tasa de ITBIS por defecto de la categoría (0 = exento), se puede modificar por línea en cada entrada
+}
+
+// Se usan mientras llega la configuración del servidor o si no se puede obtener
+export const defaultCategories: ProductCategory[] = [
+  { label: "Alimentos", value: "Alimentos", lotTracked: false, taxRate: 0 },
+  { label: "Medicamentos", value: "Medicamentos", lotTracked: true, taxRate: 0 },
+  { label: "Suministros", value: "Suministros", lotTracked: false, taxRate: 0.18 },
+  { label: "Equipamiento", value: "Equipamiento", lotTracked: false, taxRate: 0.18 },
+];
+
+export const initialState = {
+  categories: defaultCategories,
+  loaded: false,
+  error: "",
+};
+
+const CategoriesSlice = createSlice({
+  name: "Categories",
+  initialState,
+  reducers: {
+    categoriesSuccess(state, action) {
+      state.categories = action.payload;
+      state.loaded = true;
+      state.error = "";
+    },
+    categoriesError(state, action) {
+      state.loaded = true;
+      state.error = action.payload;
+    },
+  },
+});
+
+export const {
+  categoriesSuccess,
+  categoriesError
+} = CategoriesSlice.actions
+
+export default CategoriesSlice.reducer;
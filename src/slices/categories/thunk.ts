@@ -0,0 +1,18 @@
+import { APIClient } from "../../helpers/api_helper";
+import { categoriesSuccess, categoriesError } from "./reducer";
+
+const axiosHelper = new APIClient();
+const apiUrl = process.env.REACT_APP_API_URL;
+
+/**
+ * Fetches the product categories configured in the settings, with their default tax rate
+ * and whether their products are lot tracked
+ */
+export const fetchCategories = () => async (dispatch: any) => {
+    try {
+        const response = await axiosHelper.get(`${apiUrl}/settings/get_product_categories`);
+        dispatch(categoriesSuccess(response.data.data));
+    } catch (error) {
+        dispatch(categoriesError(error));
+    }
+};
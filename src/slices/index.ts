@@ -9,6 +9,12 @@ import AccountReducer from "./auth/register/reducer";
 import ForgetPasswordReducer from "./auth/forgetpwd/reducer";
 import ProfileReducer from "./auth/profile/reducer";
 
+// Warehouse
+import WarehouseReducer from "./warehouse/reducer";
+
+// Products
+import CategoriesReducer from "./categories/reducer";
+
 
 
 const rootReducer = combineReducers({
@@ -16,7 +22,9 @@ const rootReducer = combineReducers({
     Login: LoginReducer,
     Account: AccountReducer,
     ForgetPassword: ForgetPasswordReducer,
-    Profile: ProfileReducer
+    Profile: ProfileReducer,
+    Warehouse: WarehouseReducer,
+    Categories: CategoriesReducer
 });
 
 export default rootReducer;
\ No newline at end of file
@@ -6,3 +6,9 @@ export * from "./auth/login/thunk";
 export * from "./auth/register/thunk";
 export * from "./auth/forgetpwd/thunk";
 export * from "./auth/profile/thunk";
+
+// Warehouse
+export * from "./warehouse/thunk";
+
+// Products
+export * from "./categories/thunk";
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { createSlice } from "@reduxjs/toolkit";
+
+export const initialState = {
+  warehouses: [] as any[],
+  selectedWarehouse: localStorage.getItem("selectedWarehouse") || "",
+  error: "",
+};
+
+const WarehouseSlice = createSlice({
+  name: "Warehouse",
+  initialState,
+  reducers: {
+    warehousesSuccess(state, action) {
+      state.warehouses = action.payload;
+      state.error = "";
+    },
+    warehousesError(state, action) {
+      state.error = action.payload;
+    },
+    changeWarehouseAction(state, action) {
+      state.selectedWarehouse = action.payload;
+    },
+  },
+});
+
+export const {
+  warehousesSuccess,
+  warehousesError,
+  changeWarehouseAction
+} = WarehouseSlice.actions
+
+export default WarehouseSlice.reducer;
@@ -0,0 +1,38 @@
+import { APIClient } from "../../helpers/api_helper";
+import { warehousesSuccess, warehousesError, changeWarehouseAction } from "./reducer";
+
+const axiosHelper = new APIClient();
+const apiUrl = process.env.REACT_APP_API_URL;
+
+/**
+ * Fetches the active general warehouses (the ones that are not subwarehouses)
+ * and makes sure one of them is selected
+ */
+export const fetchWarehouses = () => async (dispatch: any, getState: any) => {
+    try {
+        const response = await axiosHelper.get(`${apiUrl}/warehouse`);
+        const warehouses = response.data.data.filter(function (obj: any) {
+            return !obj.isSubwarehouse && obj.status !== false;
+        });
+        dispatch(warehousesSuccess(warehouses));
+
+        const selectedWarehouse = getState().Warehouse.selectedWarehouse;
+        const isValid = warehouses.some((w: any) => w.id === selectedWarehouse);
+        if (!isValid && warehouses.length > 0) {
+            dispatch(changeWarehouse(warehouses[0].id));
+        }
+    } catch (error) {
+        dispatch(warehousesError(error));
+    }
+};
+
+/**
+ * Changes the general warehouse every inventory page works with
+ * @param {*} warehouseId
+ */
+export const changeWarehouse = (warehouseId: string) => async (dispatch: any) => {
+    try {
+        localStorage.setItem("selectedWarehouse", warehouseId);
+        dispatch(changeWarehouseAction(warehouseId));
+    } catch (error) { }
+};